@@ -83,6 +83,569 @@ describe('SDKManager', () => {
     expect(plugins).toHaveLength(2);
   });
 
+  test('should pass plugin context to initialize and destroy', async () => {
+    const initialize = jest.fn();
+    const destroy = jest.fn();
+
+    await sdk.plugins.register(createPlugin({
+      name: 'base-plugin',
+      version: '1.0.0'
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'context-plugin',
+      version: '1.0.0',
+      dependencies: ['base-plugin'],
+      config: { apiKey: 'secret' },
+      initialize,
+      destroy
+    }));
+
+    const context = initialize.mock.calls[0][0];
+    expect(context.name).toBe('context-plugin');
+    expect(context.config).toEqual({ apiKey: 'secret' });
+    expect(context.state.getState()).toBe(sdk.state.getState());
+    expect(typeof context.lifecycle.on).toBe('function');
+    expect(Object.keys(context.dependencies)).toEqual(['base-plugin']);
+    expect(typeof context.logger.info).toBe('function');
+
+    await sdk.plugins.disable('context-plugin');
+    expect(destroy).toHaveBeenCalledWith(expect.objectContaining({ name: 'context-plugin' }));
+  });
+
+  test('should expose plugin APIs through getAPI', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'auth',
+      version: '1.0.0',
+      config: { user: 'alice' },
+      api: (context) => ({
+        currentUser: () => context.config.user
+      })
+    }));
+
+    expect(sdk.plugins.getAPI('auth').currentUser()).toBe('alice');
+    expect(() => sdk.plugins.getAPI('missing')).toThrow(
+      expect.objectContaining({ code: 'PLUGIN_NOT_FOUND' })
+    );
+
+    await sdk.plugins.disable('auth');
+    expect(() => sdk.plugins.getAPI('auth')).toThrow(
+      expect.objectContaining({ code: 'PLUGIN_NOT_ENABLED' })
+    );
+  });
+
+  test('should reject dependencies and hosts outside the required version range', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'analytics', version: '1.4.0' }));
+
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'dashboard',
+      version: '1.0.0',
+      dependencies: { analytics: '^2.1.0' }
+    }))).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'DEPENDENCY_VERSION_MISMATCH' })
+    });
+
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'future',
+      version: '1.0.0',
+      engines: { sdk: '>=2.0.0' }
+    }))).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'SDK_VERSION_MISMATCH' })
+    });
+
+    await sdk.plugins.register(createPlugin({
+      name: 'reports',
+      version: '1.0.0',
+      dependencies: { analytics: '^1.2.0' },
+      engines: { sdk: '^1.0.0' }
+    }));
+    expect(sdk.plugins.get('reports')).toBeDefined();
+  });
+
+  test('should treat optional dependencies as non-blocking', async () => {
+    const initialize = jest.fn();
+
+    await sdk.plugins.register(createPlugin({
+      name: 'editor',
+      version: '1.0.0',
+      optionalDependencies: ['spellcheck'],
+      initialize
+    }));
+    expect(initialize.mock.calls[0][0].dependencies).toEqual({});
+
+    await sdk.plugins.register(createPlugin({ name: 'spellcheck', version: '1.0.0' }));
+    await sdk.plugins.disable('spellcheck');
+    await sdk.plugins.unregister('spellcheck');
+    expect(sdk.plugins.get('editor').enabled).toBe(true);
+  });
+
+  test('should not enable conflicting plugins together', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'light-theme', version: '1.0.0' }));
+    await sdk.plugins.register(createPlugin({
+      name: 'dark-theme',
+      version: '1.0.0',
+      enabled: false,
+      conflicts: ['light-theme']
+    }));
+
+    await expect(sdk.plugins.enable('dark-theme')).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'PLUGIN_CONFLICT' })
+    });
+
+    await sdk.plugins.disable('light-theme');
+    await sdk.plugins.enable('dark-theme');
+    expect(sdk.plugins.get('dark-theme').enabled).toBe(true);
+  });
+
+  test('should not enable conflicting plugins concurrently', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'a',
+      version: '1.0.0',
+      enabled: false,
+      conflicts: ['b'],
+      initialize: () => new Promise<void>(resolve => setTimeout(resolve, 10))
+    }));
+    await sdk.plugins.register(createPlugin({ name: 'b', version: '1.0.0', enabled: false }));
+
+    const results = await Promise.allSettled([sdk.plugins.enable('a'), sdk.plugins.enable('b')]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.details.code).toBe('PLUGIN_CONFLICT');
+    expect(sdk.plugins.getEnabled().map((plugin: any) => plugin.name)).toEqual(['a']);
+  });
+
+  test('should load lazy plugins on first enable', async () => {
+    const initialize = jest.fn();
+    const load = jest.fn().mockResolvedValue({ default: { initialize } });
+
+    const definition = createPlugin({
+      name: 'lazy-plugin',
+      version: '1.0.0',
+      enabled: false,
+      load
+    });
+    await sdk.plugins.register(definition);
+    const registered = sdk.plugins.get('lazy-plugin');
+    expect(load).not.toHaveBeenCalled();
+    expect(sdk.plugins.isLoaded('lazy-plugin')).toBe(false);
+
+    await sdk.plugins.enable('lazy-plugin');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(initialize).toHaveBeenCalled();
+    expect(sdk.plugins.get('lazy-plugin')).toMatchObject({ version: '1.0.0', enabled: true, initialize });
+    // 加载生成新的插件对象，不修改传入的描述
+    expect(definition.initialize).toBeUndefined();
+    expect(registered.initialize).toBeUndefined();
+
+    await sdk.plugins.disable('lazy-plugin');
+    await sdk.plugins.enable('lazy-plugin');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep the registered dependencies of lazy plugins', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'lazy-reports',
+      version: '1.0.0',
+      load: async () => ({ initialize: jest.fn(), dependencies: ['missing'], conflicts: ['theme'] } as any)
+    }));
+
+    expect(sdk.plugins.get('lazy-reports').dependencies).toBeUndefined();
+    expect(sdk.plugins.get('lazy-reports').conflicts).toBeUndefined();
+    await sdk.plugins.disable('lazy-reports');
+    await expect(sdk.plugins.enable('lazy-reports')).resolves.toEqual(['lazy-reports']);
+  });
+
+  test('should report lazy plugin load failures through the error hook', async () => {
+    const errorCallback = jest.fn();
+    sdk.lifecycle.on('error', errorCallback);
+
+    await sdk.plugins.register(createPlugin({
+      name: 'broken-lazy',
+      version: '1.0.0',
+      enabled: false,
+      load: () => Promise.reject(new Error('chunk failed'))
+    }));
+
+    await expect(sdk.plugins.enable('broken-lazy')).rejects.toThrow('chunk failed');
+    expect(errorCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'PLUGIN_LOAD_FAILED' }),
+      'loading plugin broken-lazy'
+    );
+    expect(sdk.plugins.get('broken-lazy').enabled).toBe(false);
+  });
+
+  test('should register plugins described by a manifest', async () => {
+    const initialize = jest.fn();
+    const manifestSdk = createSDKManager({
+      manifestFetcher: async () => ({
+        plugins: [
+          { name: 'core', version: '1.0.0', entry: './core.js' },
+          {
+            name: 'reports',
+            version: '1.2.0',
+            entry: 'reports.js',
+            description: 'Reporting',
+            dependencies: { core: '^1.0.0' },
+            config: { pageSize: 20 }
+          }
+        ]
+      }),
+      moduleLoader: async (entry: string) => ({ default: { initialize: () => initialize(entry) } })
+    });
+
+    const plugins = await manifestSdk.plugins.loadManifest('https://cdn.example.com/plugins/manifest.json');
+
+    expect(plugins.map(plugin => plugin.name)).toEqual(['core', 'reports']);
+    expect(manifestSdk.plugins.get('reports')!.config).toEqual({ pageSize: 20 });
+    expect(initialize).toHaveBeenCalledWith('https://cdn.example.com/plugins/reports.js');
+    await manifestSdk.destroy();
+  });
+
+  test('should reject invalid manifests with path-specific errors', async () => {
+    await expect(sdk.plugins.loadManifest({
+      plugins: [
+        { name: 'ok', version: '1.0.0', entry: './ok.js' },
+        { name: 'bad', version: 'latest', dependencies: { ok: 'not-a-range' } }
+      ]
+    })).rejects.toMatchObject({
+      code: 'INVALID_MANIFEST',
+      details: {
+        errors: [
+          'plugins[1].version "latest" is not a valid semver version',
+          'plugins[1].dependencies.ok has an invalid version range "not-a-range"',
+          'plugins[1].entry is required'
+        ]
+      }
+    });
+    expect(sdk.plugins.getAll()).toHaveLength(0);
+  });
+
+  test('should register config plugins in dependency order', async () => {
+    const order: string[] = [];
+    const track = (name: string) => () => {
+      order.push(name);
+    };
+
+    const orderedSdk = createSDKManager({
+      plugins: [
+        createPlugin({ name: 'dashboard', version: '1.0.0', dependencies: ['charts', 'auth'], initialize: track('dashboard') }),
+        createPlugin({ name: 'charts', version: '1.0.0', dependencies: ['auth'], initialize: track('charts') }),
+        createPlugin({ name: 'auth', version: '1.0.0', initialize: track('auth') })
+      ]
+    });
+
+    await orderedSdk.initialize();
+    expect(order).toEqual(['auth', 'charts', 'dashboard']);
+    await orderedSdk.destroy();
+  });
+
+  test('should report every missing dependency and cycle at once', async () => {
+    await expect(sdk.plugins.registerAll([
+      createPlugin({ name: 'a', version: '1.0.0', dependencies: ['b'] }),
+      createPlugin({ name: 'b', version: '1.0.0', dependencies: ['a'] }),
+      createPlugin({ name: 'c', version: '1.0.0', dependencies: ['missing-1'] }),
+      createPlugin({ name: 'd', version: '1.0.0', dependencies: ['missing-2'] })
+    ])).rejects.toMatchObject({
+      code: 'DEPENDENCY_RESOLUTION_FAILED',
+      details: {
+        missing: [
+          { plugin: 'c', dependency: 'missing-1' },
+          { plugin: 'd', dependency: 'missing-2' }
+        ],
+        cycles: [['a', 'b', 'a']]
+      }
+    });
+    expect(sdk.plugins.getAll()).toHaveLength(0);
+  });
+
+  test('should reject duplicate and already registered plugin names in a batch', async () => {
+    const second = jest.fn();
+    const duplicateSdk = createSDKManager({
+      plugins: [
+        createPlugin({ name: 'a', version: '1.0.0' }),
+        createPlugin({ name: 'a', version: '2.0.0', initialize: second })
+      ]
+    });
+
+    await expect(duplicateSdk.initialize()).rejects.toMatchObject({
+      code: 'DEPENDENCY_RESOLUTION_FAILED',
+      details: { duplicates: ['a'] }
+    });
+    expect(duplicateSdk.plugins.getAll()).toHaveLength(0);
+    expect(second).not.toHaveBeenCalled();
+
+    await sdk.plugins.register(createPlugin({ name: 'b', version: '1.0.0' }));
+    await expect(sdk.plugins.registerAll([
+      createPlugin({ name: 'b', version: '2.0.0' }),
+      createPlugin({ name: 'c', version: '1.0.0' })
+    ])).rejects.toMatchObject({
+      code: 'DEPENDENCY_RESOLUTION_FAILED',
+      message: 'Failed to resolve plugin dependencies: plugin b is already registered',
+      details: { duplicates: ['b'] }
+    });
+    expect(sdk.plugins.getAll().map((plugin: any) => plugin.version)).toEqual(['1.0.0']);
+  });
+
+  test('should cascade enable and disable along the dependency chain', async () => {
+    await sdk.plugins.registerAll([
+      createPlugin({ name: 'auth', version: '1.0.0', enabled: false }),
+      createPlugin({ name: 'charts', version: '1.0.0', enabled: false, dependencies: ['auth'] }),
+      createPlugin({ name: 'dashboard', version: '1.0.0', enabled: false, dependencies: ['charts'] })
+    ]);
+
+    await expect(sdk.plugins.enable('dashboard')).rejects.toThrow('Dependency charts is not enabled');
+    await expect(sdk.plugins.enable('dashboard', { withDependencies: true }))
+      .resolves.toEqual(['auth', 'charts', 'dashboard']);
+
+    await expect(sdk.plugins.disable('auth')).rejects.toThrow('required by enabled plugins');
+    await expect(sdk.plugins.disable('auth', { cascade: true }))
+      .resolves.toEqual(['dashboard', 'charts', 'auth']);
+    expect(sdk.plugins.getEnabled()).toHaveLength(0);
+  });
+
+  test('should hot-swap a plugin without tearing down dependents', async () => {
+    const oldDestroy = jest.fn();
+    const onDependencyReplaced = jest.fn();
+
+    await sdk.plugins.register(createPlugin({
+      name: 'analytics',
+      version: '2.1.0',
+      destroy: oldDestroy,
+      api: () => ({ version: 1 })
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'dashboard',
+      version: '1.0.0',
+      dependencies: { analytics: '^2.0.0' },
+      onDependencyReplaced
+    }));
+
+    await sdk.plugins.replace(createPlugin({
+      name: 'analytics',
+      version: '2.2.0',
+      api: () => ({ version: 2 })
+    }));
+
+    expect(oldDestroy).toHaveBeenCalled();
+    expect(sdk.plugins.getAPI('analytics').version).toBe(2);
+    expect(sdk.plugins.get('dashboard').enabled).toBe(true);
+    expect(onDependencyReplaced).toHaveBeenCalledWith(
+      { name: 'analytics', previousVersion: '2.1.0', version: '2.2.0' },
+      expect.objectContaining({ name: 'dashboard' })
+    );
+
+    await expect(sdk.plugins.replace(createPlugin({ name: 'analytics', version: '3.0.0' })))
+      .rejects.toMatchObject({ code: 'PLUGIN_REPLACE_FAILED' });
+  });
+
+  test('should restore the previous plugin when the replacement fails to initialize', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'search',
+      version: '1.0.0',
+      api: () => ({ engine: 'v1' })
+    }));
+
+    await expect(sdk.plugins.replace(createPlugin({
+      name: 'search',
+      version: '1.1.0',
+      initialize: () => {
+        throw new Error('boom');
+      }
+    }))).rejects.toMatchObject({ code: 'PLUGIN_REPLACE_FAILED' });
+
+    expect(sdk.plugins.get('search').version).toBe('1.0.0');
+    expect(sdk.plugins.get('search').enabled).toBe(true);
+    expect(sdk.plugins.getAPI('search').engine).toBe('v1');
+  });
+
+  test('should time out plugins whose initialize never settles', async () => {
+    const errorCallback = jest.fn();
+    const timeoutSdk = createSDKManager({
+      pluginPolicy: { initTimeout: 20 },
+      plugins: [
+        createPlugin({
+          name: 'hanging',
+          version: '1.0.0',
+          initialize: () => new Promise<void>(() => undefined)
+        })
+      ]
+    });
+    timeoutSdk.lifecycle.on('error', errorCallback);
+
+    await expect(timeoutSdk.initialize()).rejects.toThrow('did not initialize within 20ms');
+    expect(errorCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'PLUGIN_INIT_TIMEOUT' }),
+      'initializing plugin hanging'
+    );
+    await timeoutSdk.destroy();
+  });
+
+  test('should retry plugin initialization with backoff', async () => {
+    const initialize = jest.fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(undefined);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await sdk.plugins.register(createPlugin({
+      name: 'flaky',
+      version: '1.0.0',
+      policy: { retries: 2, retryDelay: 1 },
+      initialize
+    }));
+
+    expect(initialize).toHaveBeenCalledTimes(3);
+    expect(sdk.plugins.get('flaky').enabled).toBe(true);
+    warn.mockRestore();
+  });
+
+  test('should roll back a plugin whose initialization fails', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'base', version: '1.0.0' }));
+
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'broken',
+      version: '1.0.0',
+      dependencies: ['base'],
+      initialize: () => { throw new Error('boom'); }
+    }))).rejects.toThrow('while initializing');
+
+    expect(sdk.plugins.get('broken')).toBeUndefined();
+    await expect(sdk.plugins.unregister('base')).resolves.toBeUndefined();
+  });
+
+  test('should roll back a batch when one plugin fails', async () => {
+    const destroy = jest.fn();
+    sdk = createSDKManager({
+      name: 'Test SDK',
+      version: '1.0.0',
+      plugins: [
+        createPlugin({ name: 'core', version: '1.0.0', destroy }),
+        createPlugin({
+          name: 'ui',
+          version: '1.0.0',
+          dependencies: ['core'],
+          initialize: () => { throw new Error('boom'); }
+        })
+      ]
+    });
+
+    await expect(sdk.initialize()).rejects.toMatchObject({
+      code: 'BATCH_REGISTRATION_FAILED',
+      message: expect.stringContaining('rolled back: core')
+    });
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(sdk.plugins.getAll()).toHaveLength(0);
+    expect(sdk.getInfo().isInitialized).toBe(false);
+  });
+
+  test('should report status transitions to subscribers', async () => {
+    const events: string[] = [];
+    sdk.plugins.subscribeStatus((event: any) => events.push(`${event.previousStatus}->${event.status}`));
+
+    await sdk.plugins.register(createPlugin({
+      name: 'lazy',
+      version: '1.0.0',
+      load: async () => ({ initialize: jest.fn() })
+    }));
+    expect(sdk.plugins.getStatus('lazy')).toBe('enabled');
+
+    await sdk.plugins.disable('lazy');
+    expect(sdk.plugins.getStatus('lazy')).toBe('disabled');
+    expect(events).toEqual([
+      'disabled->loading',
+      'loading->initializing',
+      'initializing->enabled',
+      'enabled->disabling',
+      'disabling->disabled'
+    ]);
+  });
+
+  test('should wait for an in-flight start before disabling', async () => {
+    const destroy = jest.fn();
+    await sdk.plugins.register(createPlugin({
+      name: 'slow',
+      version: '1.0.0',
+      enabled: false,
+      initialize: () => new Promise<void>(resolve => setTimeout(resolve, 10)),
+      destroy
+    }));
+
+    const enabling = sdk.plugins.enable('slow');
+    expect(sdk.plugins.getStatus('slow')).toBe('initializing');
+
+    await expect(sdk.plugins.disable('slow')).resolves.toEqual(['slow']);
+    await expect(enabling).resolves.toEqual(['slow']);
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(sdk.plugins.getStatus('slow')).toBe('disabled');
+  });
+
+  test('should mark a plugin as failed and allow retrying', async () => {
+    let attempts = 0;
+    await sdk.plugins.register(createPlugin({
+      name: 'flaky',
+      version: '1.0.0',
+      enabled: false,
+      initialize: () => {
+        attempts++;
+        if (attempts === 1) throw new Error('boom');
+      }
+    }));
+
+    await expect(sdk.plugins.enable('flaky')).rejects.toThrow('boom');
+    expect(sdk.plugins.getStatus('flaky')).toBe('failed');
+    expect(sdk.plugins.get('flaky').enabled).toBe(false);
+
+    await sdk.plugins.enable('flaky');
+    expect(sdk.plugins.getStatus('flaky')).toBe('enabled');
+  });
+
+  test('should share an in-flight start with a concurrent enable', async () => {
+    const initialize = jest.fn(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+    await sdk.plugins.register(createPlugin({ name: 'slow', version: '1.0.0', enabled: false, initialize }));
+
+    const first = sdk.plugins.enable('slow');
+    expect(sdk.plugins.getStatus('slow')).toBe('initializing');
+    const second = sdk.plugins.enable('slow');
+
+    await expect(first).resolves.toEqual(['slow']);
+    await expect(second).resolves.toEqual([]);
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(sdk.plugins.getStatus('slow')).toBe('enabled');
+  });
+
+  test('should emit plugin lifecycle events', async () => {
+    const events: string[] = [];
+    const hooks = ['pluginRegistered', 'pluginEnabled', 'pluginDisabled', 'pluginUnregistered', 'pluginFailed'];
+    hooks.forEach(hook => {
+      sdk.lifecycle.on(hook, (event: any) => events.push(`${hook}:${event.name}@${event.version}`));
+    });
+
+    await sdk.plugins.register(createPlugin({ name: 'search', version: '1.2.0' }));
+    await sdk.plugins.disable('search');
+    await sdk.plugins.unregister('search');
+
+    const failed = jest.fn();
+    sdk.lifecycle.on('pluginFailed', failed);
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'broken',
+      version: '1.0.0',
+      initialize: () => { throw new Error('boom'); }
+    }))).rejects.toThrow('boom');
+
+    expect(events).toEqual([
+      'pluginRegistered:search@1.2.0',
+      'pluginEnabled:search@1.2.0',
+      'pluginDisabled:search@1.2.0',
+      'pluginUnregistered:search@1.2.0',
+      'pluginRegistered:broken@1.0.0',
+      'pluginFailed:broken@1.0.0',
+      'pluginUnregistered:broken@1.0.0'
+    ]);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'broken',
+      error: expect.objectContaining({ message: 'boom' })
+    }));
+  });
+
   test('should handle lifecycle hooks', async () => {
     const mockCallback = jest.fn();
     
@@ -0,0 +1,176 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { createSDKManager, createPlugin, SDKProvider, CommandPalette, useCommand } from '../src';
+
+describe('Commands', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    sdk = createSDKManager({ initialState: { dirty: false } });
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should register, list and execute commands', async () => {
+    const handler = jest.fn((args: any) => `saved ${args.name}`);
+    sdk.commands.register('file.save', handler, { title: 'Save', shortcut: 'mod+s', when: { path: 'state.dirty', equals: true } });
+
+    expect(sdk.commands.list()).toEqual([
+      { id: 'file.save', title: 'Save', description: undefined, shortcut: 'mod+s', plugin: undefined, available: false }
+    ]);
+    await expect(sdk.commands.execute('file.save')).rejects.toMatchObject({ code: 'COMMAND_UNAVAILABLE' });
+    await expect(sdk.commands.execute('file.open')).rejects.toMatchObject({ code: 'COMMAND_NOT_FOUND' });
+
+    sdk.state.setState({ dirty: true });
+    await expect(sdk.commands.execute('file.save', { name: 'a.txt' })).resolves.toBe('saved a.txt');
+    expect(() => sdk.commands.register('file.save', handler)).toThrow(
+      expect.objectContaining({ code: 'COMMAND_ALREADY_REGISTERED' })
+    );
+    expect(() => sdk.commands.register('file.close', handler, { shortcut: 'hyper+w' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_COMMAND' })
+    );
+  });
+
+  test('should remove plugin commands when the plugin is disabled', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await sdk.plugins.register(createPlugin({
+      name: 'editor',
+      version: '1.0.0',
+      initialize: context => {
+        context.commands.register('editor.format', () => {
+          throw new Error('format failed');
+        }, { title: 'Format document' });
+      }
+    }));
+
+    expect(sdk.commands.get('editor.format')).toMatchObject({ plugin: 'editor', title: 'Format document' });
+    await expect(sdk.commands.execute('editor.format')).rejects.toMatchObject({
+      code: 'COMMAND_FAILED',
+      message: 'Command editor.format failed: format failed'
+    });
+    expect(sdk.plugins.getErrorCount('editor')).toBe(1);
+
+    await sdk.plugins.disable('editor');
+    expect(sdk.commands.list()).toEqual([]);
+
+    await sdk.plugins.enable('editor');
+    expect(sdk.commands.get('editor.format')).toBeDefined();
+  });
+
+  test('should not let a plugin unregister commands it does not own without plugins:manage', async () => {
+    let context: any;
+    sdk.commands.register('app.quit', jest.fn());
+    await sdk.plugins.register(createPlugin({
+      name: 'reader',
+      version: '1.0.0',
+      permissions: ['state:read'],
+      initialize: ctx => { context = ctx; }
+    }));
+
+    expect(() => context.commands.unregister('app.quit')).toThrow(
+      expect.objectContaining({ code: 'PERMISSION_DENIED' })
+    );
+    expect(sdk.commands.get('app.quit')).toBeDefined();
+  });
+
+  test('useCommand should follow registration and availability', async () => {
+    let result: any;
+    const Probe = () => {
+      const [command, execute] = useCommand('theme.toggle');
+      result = { command, execute };
+      return <span>{command ? `${command.title}: ${command.available}` : 'missing'}</span>;
+    };
+    let instance: any;
+
+    sdk = null;
+    render(
+      <SDKProvider
+        config={{ initialState: { locked: false } }}
+        onInitialized={created => { instance = created; }}
+      >
+        <Probe />
+      </SDKProvider>
+    );
+
+    expect(await screen.findByText('missing')).toBeTruthy();
+    const toggle = jest.fn();
+    act(() => {
+      instance.commands.register('theme.toggle', toggle, { title: 'Toggle theme', when: { not: { path: 'state.locked' } } });
+    });
+    expect(screen.getByText('Toggle theme: true')).toBeTruthy();
+
+    await act(async () => {
+      await result.execute('dark');
+    });
+    expect(toggle).toHaveBeenCalledWith('dark');
+
+    act(() => {
+      instance.state.setState({ locked: true });
+    });
+    expect(screen.getByText('Toggle theme: false')).toBeTruthy();
+  });
+
+  test('<CommandPalette> should list enabled plugin commands and bind shortcuts', async () => {
+    const save = jest.fn();
+    const share = jest.fn();
+
+    sdk = null;
+    render(
+      <SDKProvider
+        config={{
+          plugins: [
+            createPlugin({
+              name: 'files',
+              version: '1.0.0',
+              initialize: context => {
+                context.commands.register('files.save', save, { title: 'Save file', shortcut: 'ctrl+shift+s' });
+              }
+            }),
+            createPlugin({
+              name: 'share',
+              version: '1.0.0',
+              enabled: false,
+              initialize: context => {
+                context.commands.register('share.link', share, { title: 'Copy link' });
+              }
+            })
+          ]
+        }}
+      >
+        <CommandPalette shortcut="ctrl+k">
+          {({ open, query, setQuery, commands, execute }) => open && (
+            <div>
+              <input aria-label="search" value={query} onChange={event => setQuery(event.target.value)} />
+              {commands.map(command => (
+                <button key={command.id} onClick={() => execute(command.id)}>{command.title}</button>
+              ))}
+            </div>
+          )}
+        </CommandPalette>
+      </SDKProvider>
+    );
+
+    await waitFor(() => expect(screen.queryByText('Initializing SDK...')).toBeNull());
+
+    fireEvent.keyDown(document, { key: 's', ctrlKey: true, shiftKey: true });
+    expect(save).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(document, { key: 'k', ctrlKey: true });
+    expect(screen.getAllByRole('button').map(button => button.textContent)).toEqual(['Save file']);
+
+    fireEvent.change(screen.getByLabelText('search'), { target: { value: 'link' } });
+    expect(screen.queryAllByRole('button')).toEqual([]);
+
+    fireEvent.change(screen.getByLabelText('search'), { target: { value: 'save' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Save file'));
+    });
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(screen.queryByLabelText('search')).toBeNull();
+  });
+});
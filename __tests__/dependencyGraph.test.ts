@@ -0,0 +1,94 @@
+import { createSDKManager, createPlugin, formatDependencyGraph } from '../src';
+import { getPluginDependencyChain } from '../src/utils/pluginHelpers';
+
+describe('Dependency graph', () => {
+  let sdk: any;
+
+  beforeEach(async () => {
+    sdk = createSDKManager();
+    await sdk.plugins.registerAll([
+      createPlugin({ name: 'core', version: '1.0.0' }),
+      createPlugin({ name: 'theme', version: '1.0.0', enabled: false }),
+      createPlugin({ name: 'auth', version: '1.0.0', dependencies: ['core'] }),
+      createPlugin({ name: 'editor', version: '2.0.0', dependencies: ['core', 'auth'], optionalDependencies: ['theme'] })
+    ]);
+  });
+
+  afterEach(async () => {
+    await sdk.destroy();
+  });
+
+  test('should return nodes and edges with their enabled status', () => {
+    const graph = sdk.plugins.getDependencyGraph();
+
+    expect(graph.nodes).toEqual([
+      { name: 'core', version: '1.0.0', status: 'enabled', enabled: true },
+      { name: 'theme', version: '1.0.0', status: 'disabled', enabled: false },
+      { name: 'auth', version: '1.0.0', status: 'enabled', enabled: true },
+      { name: 'editor', version: '2.0.0', status: 'enabled', enabled: true }
+    ]);
+    expect(graph.edges).toEqual([
+      { from: 'auth', to: 'core', kind: 'required', enabled: true },
+      { from: 'editor', to: 'core', kind: 'required', enabled: true },
+      { from: 'editor', to: 'theme', kind: 'optional', enabled: false },
+      { from: 'editor', to: 'auth', kind: 'required', enabled: true }
+    ]);
+  });
+
+  test('should answer transitive queries and the cascade disable order', async () => {
+    expect(sdk.plugins.getTransitiveDependencies('editor')).toEqual(['core', 'auth']);
+    expect(sdk.plugins.getTransitiveDependents('core')).toEqual(['editor', 'auth']);
+    expect(sdk.plugins.getDisableOrder('core')).toEqual(['editor', 'auth', 'core']);
+
+    await sdk.plugins.disable('editor');
+    expect(sdk.plugins.getDisableOrder('core')).toEqual(['auth', 'core']);
+    expect(() => sdk.plugins.getDisableOrder('missing')).toThrow(
+      expect.objectContaining({ code: 'PLUGIN_NOT_FOUND' })
+    );
+
+    expect(await sdk.plugins.disable('core', { cascade: true })).toEqual(['auth', 'core']);
+  });
+
+  test('should remove the stale dependent edge when a plugin is unregistered', async () => {
+    await sdk.plugins.unregister('editor');
+
+    expect(sdk.plugins.getTransitiveDependents('core')).toEqual(['auth']);
+    expect(sdk.plugins.getDependencyGraph().edges).toEqual([
+      { from: 'auth', to: 'core', kind: 'required', enabled: true }
+    ]);
+
+    await sdk.plugins.unregister('auth');
+    await expect(sdk.plugins.unregister('core')).resolves.toBeUndefined();
+  });
+
+  test('should export the graph as JSON, DOT and Mermaid', async () => {
+    await sdk.plugins.unregister('editor');
+    const graph = sdk.plugins.getDependencyGraph();
+
+    expect(JSON.parse(sdk.plugins.exportDependencyGraph())).toEqual(graph);
+    expect(sdk.plugins.exportDependencyGraph('dot')).toBe([
+      'digraph plugins {',
+      '  "core" [label="core@1.0.0"];',
+      '  "theme" [label="theme@1.0.0", style=dashed, color=gray];',
+      '  "auth" [label="auth@1.0.0"];',
+      '  "auth" -> "core";',
+      '}'
+    ].join('\n'));
+    expect(sdk.plugins.exportDependencyGraph('mermaid')).toBe([
+      'graph TD',
+      '  n0["core@1.0.0"]',
+      '  n1["theme@1.0.0"]',
+      '  n2["auth@1.0.0"]',
+      '  n2 --> n0',
+      '  classDef disabled stroke-dasharray: 5 5,color:#999',
+      '  class n1 disabled'
+    ].join('\n'));
+    expect(() => formatDependencyGraph(graph, 'svg' as any)).toThrow(
+      expect.objectContaining({ code: 'INVALID_GRAPH_FORMAT' })
+    );
+  });
+
+  test('getPluginDependencyChain should list each dependency once', () => {
+    expect(getPluginDependencyChain('editor', sdk.plugins.getAll())).toEqual(['core', 'auth']);
+  });
+});
@@ -0,0 +1,139 @@
+import { createSDKManager, createPlugin, validatePlugin } from '../src';
+
+describe('Plugin enabledWhen rules', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should toggle a plugin when the state changes', async () => {
+    sdk = createSDKManager({ initialState: { mode: 'view' } });
+    await sdk.plugins.register(createPlugin({
+      name: 'editor',
+      version: '1.0.0',
+      enabledWhen: { path: 'state.mode', equals: 'edit' }
+    }));
+    expect(sdk.plugins.getStatus('editor')).toBe('disabled');
+
+    sdk.state.setState({ mode: 'edit' });
+    await sdk.plugins.evaluateRules();
+    expect(sdk.plugins.getStatus('editor')).toBe('enabled');
+
+    sdk.state.setState({ mode: 'view' });
+    await sdk.plugins.evaluateRules();
+    expect(sdk.plugins.getStatus('editor')).toBe('disabled');
+    expect(sdk.plugins.getRuleLog()).toEqual([
+      expect.objectContaining({ name: 'editor', action: 'enable', reason: 'enabledWhen matched: state.mode == "edit"' }),
+      expect.objectContaining({ name: 'editor', action: 'disable', reason: 'enabledWhen no longer matches: state.mode == "edit"' })
+    ]);
+  });
+
+  test('should enable dependencies before their dependents and disable dependents first', async () => {
+    const order: string[] = [];
+    const rule = { path: 'state.premium', equals: true };
+    sdk = createSDKManager({ initialState: { premium: false } });
+    await sdk.plugins.register(createPlugin({
+      name: 'billing',
+      version: '1.0.0',
+      enabledWhen: rule,
+      initialize: () => { order.push('billing'); }
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'invoices',
+      version: '1.0.0',
+      dependencies: ['billing'],
+      enabledWhen: rule,
+      initialize: () => { order.push('invoices'); }
+    }));
+    await sdk.plugins.register(createPlugin({ name: 'reports', version: '1.0.0', dependencies: ['billing'], enabled: false }));
+
+    sdk.state.setState({ premium: true });
+    await sdk.plugins.evaluateRules();
+    expect(order).toEqual(['billing', 'invoices']);
+
+    await sdk.plugins.enable('reports');
+    sdk.state.setState({ premium: false });
+    await sdk.plugins.evaluateRules();
+
+    expect(sdk.plugins.getEnabled()).toEqual([]);
+    expect(sdk.plugins.getRuleLog().slice(-3)).toEqual([
+      expect.objectContaining({ name: 'invoices', action: 'disable', reason: expect.stringContaining('no longer matches') }),
+      expect.objectContaining({ name: 'reports', reason: 'dependency billing was disabled by its enabledWhen rule' }),
+      expect.objectContaining({ name: 'billing', action: 'disable', reason: expect.stringContaining('no longer matches') })
+    ]);
+  });
+
+  test('should evaluate predicates against the env and user context', async () => {
+    sdk = createSDKManager({ ruleContext: { env: { region: 'eu' } } });
+    await sdk.plugins.register(createPlugin({
+      name: 'admin',
+      version: '1.0.0',
+      enabledWhen: ({ env, user }) => env.region === 'eu' && user.role === 'admin'
+    }));
+    expect(sdk.plugins.getStatus('admin')).toBe('disabled');
+
+    await sdk.plugins.setRuleContext({ user: { role: 'admin' } });
+    expect(sdk.plugins.getStatus('admin')).toBe('enabled');
+    expect(sdk.plugins.getRuleLog()[0].reason).toBe('enabledWhen matched: predicate');
+
+    await sdk.plugins.setRuleContext({ env: { region: 'us' } });
+    expect(sdk.plugins.getStatus('admin')).toBe('disabled');
+  });
+
+  test('should keep the current status when a predicate throws', async () => {
+    sdk = createSDKManager({ initialState: { ready: true } });
+    await sdk.plugins.register(createPlugin({
+      name: 'fragile',
+      version: '1.0.0',
+      enabledWhen: ({ state }) => {
+        if (!state.ready) throw new Error('not ready');
+        return true;
+      }
+    }));
+
+    sdk.state.setState({ ready: false });
+    await sdk.plugins.evaluateRules();
+
+    expect(sdk.plugins.getStatus('fragile')).toBe('enabled');
+    expect(console.warn).toHaveBeenCalledWith('Failed to evaluate enabledWhen of plugin fragile:', expect.any(Error));
+  });
+
+  test('should reject malformed rules', () => {
+    expect(validatePlugin({
+      name: 'broken',
+      version: '1.0.0',
+      enabledWhen: { all: [{ path: 'window.location', equals: '/' }, { path: 'state.count', gt: '1' }] } as any
+    })).toEqual([
+      'plugin.enabledWhen.all[0].path must start with state, env, user',
+      'plugin.enabledWhen.all[1].gt must be a number'
+    ]);
+  });
+
+  test('should apply rules declared in a manifest', async () => {
+    sdk = createSDKManager({
+      initialState: { beta: false },
+      moduleLoader: async () => ({ default: {} })
+    });
+
+    await sdk.plugins.loadManifest({
+      name: 'labs',
+      version: '1.0.0',
+      entry: './labs.js',
+      enabledWhen: { any: [{ path: 'state.beta', equals: true }, { path: 'user.staff', exists: true }] }
+    });
+    expect(sdk.plugins.getStatus('labs')).toBe('disabled');
+
+    sdk.state.setState({ beta: true });
+    await sdk.plugins.evaluateRules();
+    expect(sdk.plugins.getStatus('labs')).toBe('enabled');
+  });
+});
@@ -0,0 +1,108 @@
+import { createSDKManager, createPlugin } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Parallel plugin initialization', () => {
+  let sdk: any;
+  let events: string[];
+  let running: number;
+  let maxRunning: number;
+
+  const createTimedPlugin = (name: string, dependencies: string[] = [], fail = false) => createPlugin({
+    name,
+    version: '1.0.0',
+    dependencies,
+    initialize: async () => {
+      events.push(`start ${name}`);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(20);
+      running--;
+      events.push(`end ${name}`);
+      if (fail) {
+        throw new Error(`${name} failed`);
+      }
+    }
+  });
+
+  beforeEach(() => {
+    events = [];
+    running = 0;
+    maxRunning = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should initialize independent plugins concurrently', async () => {
+    sdk = createSDKManager({
+      plugins: ['a', 'b', 'c'].map(name => createTimedPlugin(name))
+    });
+
+    await sdk.initialize();
+
+    expect(maxRunning).toBe(3);
+    expect(sdk.plugins.getEnabled()).toHaveLength(3);
+  });
+
+  test('should finish dependencies before their dependents start', async () => {
+    sdk = createSDKManager({
+      plugins: [
+        createTimedPlugin('ui', ['api', 'auth']),
+        createTimedPlugin('api'),
+        createTimedPlugin('auth', ['api'])
+      ]
+    });
+
+    await sdk.initialize();
+
+    expect(events).toEqual(['start api', 'end api', 'start auth', 'end auth', 'start ui', 'end ui']);
+    expect(sdk.getInfo().pluginTimings).toMatchObject({
+      api: { level: 0 },
+      auth: { level: 1 },
+      ui: { level: 2 }
+    });
+    expect(sdk.getInfo().pluginTimings.ui.duration).toBeGreaterThanOrEqual(15);
+  });
+
+  test('should respect the concurrency limit', async () => {
+    sdk = createSDKManager({
+      pluginConcurrency: 2,
+      plugins: ['a', 'b', 'c', 'd', 'e'].map(name => createTimedPlugin(name))
+    });
+
+    await sdk.initialize();
+
+    expect(maxRunning).toBe(2);
+    expect(sdk.plugins.getEnabled()).toHaveLength(5);
+  });
+
+  test('should let registerAll override the concurrency limit', async () => {
+    sdk = createSDKManager({ pluginConcurrency: 2 });
+
+    await sdk.plugins.registerAll(['a', 'b', 'c'].map(name => createTimedPlugin(name)), { concurrency: 1 });
+
+    expect(maxRunning).toBe(1);
+  });
+
+  test('should stop at a failing level and roll back the whole batch', async () => {
+    sdk = createSDKManager();
+
+    await expect(sdk.plugins.registerAll([
+      createTimedPlugin('a'),
+      createTimedPlugin('b', [], true),
+      createTimedPlugin('c', ['a'])
+    ])).rejects.toMatchObject({
+      code: 'BATCH_REGISTRATION_FAILED',
+      message: expect.stringContaining('stopped at plugin b (rolled back: a)')
+    });
+
+    expect(events).not.toContain('start c');
+    expect(sdk.plugins.getAll()).toEqual([]);
+  });
+});
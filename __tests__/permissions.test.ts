@@ -0,0 +1,136 @@
+import { createSDKManager, createPlugin } from '../src';
+
+describe('Plugin permissions', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    sdk = createSDKManager({
+      name: 'Test SDK',
+      version: '1.0.0',
+      initialState: { theme: 'light', token: 'secret' }
+    });
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+  });
+
+  const contextOf = (name: string) => sdk.plugins.createContext(sdk.plugins.get(name));
+
+  test('should give plugins without declared permissions full access', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'trusted', version: '1.0.0' }));
+    const context = contextOf('trusted');
+
+    context.state.setState({ theme: 'dark' });
+    expect(context.state.getState().theme).toBe('dark');
+    expect(sdk.plugins.getPermissions('trusted')).toContain('plugins:manage');
+  });
+
+  test('should limit state writes to granted keys', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'theme',
+      version: '1.0.0',
+      permissions: ['state:read', 'state:write:theme']
+    }));
+    const context = contextOf('theme');
+
+    context.state.setState({ theme: 'dark' });
+    expect(sdk.state.getState().theme).toBe('dark');
+
+    expect(() => context.state.setState({ token: 'stolen' })).toThrow(
+      expect.objectContaining({ code: 'PERMISSION_DENIED' })
+    );
+    expect(() => context.state.setState((prev: any) => ({ ...prev, token: 'stolen' }))).toThrow(
+      expect.objectContaining({ code: 'PERMISSION_DENIED' })
+    );
+    expect(() => context.state.reset()).toThrow(expect.objectContaining({ code: 'PERMISSION_DENIED' }));
+    expect(sdk.state.getState().token).toBe('secret');
+  });
+
+  test('should deny reading state without state:read', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'widget',
+      version: '1.0.0',
+      permissions: [],
+      initialState: { clicks: 0 }
+    }));
+    const context = contextOf('widget');
+
+    expect(() => context.state.getState()).toThrow(expect.objectContaining({ code: 'PERMISSION_DENIED' }));
+    // 自己的切片始终可以访问
+    context.setState({ clicks: 1 });
+    expect(context.getState()).toEqual({ clicks: 1 });
+  });
+
+  test('should require plugins:manage to change other plugins', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'victim', version: '1.0.0' }));
+    await sdk.plugins.register(createPlugin({ name: 'intruder', version: '1.0.0', permissions: ['state:read'] }));
+    const context = contextOf('intruder');
+
+    await expect(context.plugins.unregister('victim')).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+      details: { plugin: 'intruder', permission: 'plugins:manage' }
+    });
+    expect(context.plugins.get('victim')).toBeDefined();
+  });
+
+  test('should require lifecycle permissions to emit and clear hooks', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'listener', version: '1.0.0', permissions: [] }));
+    const context = contextOf('listener');
+    const callback = jest.fn();
+
+    context.lifecycle.on('stateChange', callback);
+    expect(() => context.lifecycle.emit('afterMount')).toThrow(expect.objectContaining({ code: 'PERMISSION_DENIED' }));
+    expect(() => context.lifecycle.clear()).toThrow(expect.objectContaining({ code: 'PERMISSION_DENIED' }));
+
+    sdk.state.setState({ theme: 'dark' });
+    expect(callback).toHaveBeenCalled();
+  });
+
+  test('should apply host grants and revocations at registration', async () => {
+    sdk = createSDKManager({
+      initialState: {},
+      pluginPermissions: { analytics: { revoke: ['plugins:manage'] } }
+    });
+    await sdk.plugins.register(createPlugin({ name: 'analytics', version: '1.0.0' }));
+    await sdk.plugins.register(
+      createPlugin({ name: 'sync', version: '1.0.0', permissions: ['state:read'] }),
+      { permissions: { grant: ['state:write:lastSync'] } }
+    );
+
+    expect(sdk.plugins.getPermissions('analytics')).not.toContain('plugins:manage');
+    expect(sdk.plugins.getPermissions('sync')).toEqual(['state:read', 'state:write:lastSync']);
+  });
+
+  test('should not give full rights to plugins from manifests or other plugins', async () => {
+    sdk = createSDKManager({
+      initialState: {},
+      defaultPluginPermissions: ['state:read', 'state:write'],
+      moduleLoader: async () => ({})
+    });
+    await sdk.plugins.register(createPlugin({ name: 'host', version: '1.0.0' }));
+    await sdk.plugins.register(createPlugin({ name: 'manager', version: '1.0.0', permissions: ['state:read', 'plugins:manage'] }));
+    await sdk.plugins.loadManifest({ name: 'remote', version: '1.0.0', entry: '/remote.js' });
+
+    const context = contextOf('manager');
+    await context.plugins.register(createPlugin({ name: 'helper', version: '1.0.0' }));
+    await context.plugins.register(createPlugin({ name: 'escalated', version: '1.0.0', permissions: ['state:write', 'plugins:manage'] }));
+
+    expect(sdk.plugins.getPermissions('host')).toEqual(['state:read', 'state:write']);
+    expect(sdk.plugins.getPermissions('remote')).toEqual(['state:read']);
+    expect(sdk.plugins.getPermissions('helper')).toEqual(['state:read']);
+    expect(sdk.plugins.getPermissions('escalated')).toEqual(['plugins:manage']);
+  });
+
+  test('should reject unknown permissions', async () => {
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'weird',
+      version: '1.0.0',
+      permissions: ['root' as any]
+    }))).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'INVALID_PERMISSION' })
+    });
+  });
+});
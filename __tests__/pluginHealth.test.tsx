@@ -0,0 +1,178 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { createSDKManager, createPlugin, SDKProvider, PluginRenderer } from '../src';
+
+describe('Plugin health', () => {
+  let sdk: any;
+
+  const waitForQuarantine = () => new Promise<any>(resolve => {
+    sdk.lifecycle.on('pluginQuarantined', resolve);
+  });
+
+  beforeEach(() => {
+    sdk = createSDKManager({ initialState: { count: 0 } });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    if (sdk) {
+      await sdk.destroy();
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should count hook errors and quarantine the plugin with its dependents', async () => {
+    sdk = createSDKManager({ initialState: { count: 0 }, pluginHealth: { errorThreshold: 3 } });
+    await sdk.plugins.register(createPlugin({
+      name: 'flaky',
+      version: '1.0.0',
+      hooks: { onStateChange: () => { throw new Error('hook failed'); } }
+    }));
+    await sdk.plugins.register(createPlugin({ name: 'consumer', version: '1.0.0', dependencies: ['flaky'] }));
+    const quarantined = waitForQuarantine();
+
+    sdk.state.setState({ count: 1 });
+    sdk.state.setState({ count: 2 });
+    expect(sdk.plugins.getErrorCount('flaky')).toBe(2);
+    expect(sdk.plugins.getStatus('flaky')).toBe('enabled');
+
+    sdk.state.setState({ count: 3 });
+    const event = await quarantined;
+
+    expect(event).toMatchObject({ name: 'flaky', reason: expect.stringContaining('3 errors reached the threshold of 3') });
+    expect(sdk.plugins.getStatus('flaky')).toBe('disabled');
+    expect(sdk.plugins.getStatus('consumer')).toBe('disabled');
+    expect(sdk.getInfo().quarantinedPlugins).toEqual([
+      expect.objectContaining({ name: 'flaky', disabled: ['consumer', 'flaky'] })
+    ]);
+  });
+
+  test('should only count errors inside the error window', async () => {
+    jest.useFakeTimers();
+    await sdk.plugins.register(createPlugin({
+      name: 'flaky',
+      version: '1.0.0',
+      health: { errorThreshold: 2, errorWindow: 1000 }
+    }));
+
+    sdk.plugins.recordError('flaky', new Error('first'));
+    jest.advanceTimersByTime(1500);
+    sdk.plugins.recordError('flaky', new Error('second'));
+
+    expect(sdk.plugins.getErrorCount('flaky')).toBe(1);
+    expect(sdk.plugins.getQuarantined()).toEqual([]);
+  });
+
+  test('should not let a plugin report errors of others without plugins:manage', async () => {
+    let context: any;
+    await sdk.plugins.register(createPlugin({ name: 'victim', version: '1.0.0', health: { errorThreshold: 1 } }));
+    await sdk.plugins.register(createPlugin({
+      name: 'reporter',
+      version: '1.0.0',
+      permissions: ['state:read'],
+      initialize: ctx => { context = ctx; }
+    }));
+
+    expect(() => context.plugins.recordError('victim', new Error('fake'))).toThrow(
+      expect.objectContaining({ code: 'PERMISSION_DENIED' })
+    );
+    expect(sdk.plugins.getErrorCount('victim')).toBe(0);
+    expect(sdk.plugins.getStatus('victim')).toBe('enabled');
+
+    context.plugins.recordError('reporter', new Error('own'));
+    expect(sdk.plugins.getErrorCount('reporter')).toBe(1);
+  });
+
+  test('should run health checks on a schedule while the plugin is enabled', async () => {
+    jest.useFakeTimers();
+    const healthCheck = jest.fn().mockResolvedValue(true);
+    await sdk.plugins.register(createPlugin({
+      name: 'api',
+      version: '1.0.0',
+      healthCheck,
+      health: { checkInterval: 1000 }
+    }));
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(healthCheck).toHaveBeenCalledTimes(2);
+
+    await sdk.plugins.disable('api');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(healthCheck).toHaveBeenCalledTimes(2);
+  });
+
+  test('should quarantine a plugin whose health check fails and release it on enable', async () => {
+    let healthy = false;
+    const sdkError = jest.fn();
+    const pluginError = jest.fn();
+    sdk.lifecycle.on('error', sdkError);
+    sdk.lifecycle.on('pluginError', pluginError);
+    await sdk.plugins.register(createPlugin({
+      name: 'api',
+      version: '1.0.0',
+      healthCheck: () => healthy,
+      health: { errorThreshold: 1 }
+    }));
+    const quarantined = waitForQuarantine();
+
+    await expect(sdk.plugins.checkHealth('api')).resolves.toBe(false);
+    await quarantined;
+
+    expect(sdkError).not.toHaveBeenCalled();
+    expect(pluginError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'api', error: expect.objectContaining({ code: 'PLUGIN_UNHEALTHY' }) })
+    );
+    expect(sdk.plugins.getQuarantined()[0]).toMatchObject({ name: 'api', error: expect.objectContaining({ code: 'PLUGIN_UNHEALTHY' }) });
+
+    healthy = true;
+    await sdk.plugins.enable('api');
+    expect(sdk.plugins.getQuarantined()).toEqual([]);
+    expect(sdk.plugins.getErrorCount('api')).toBe(0);
+    await expect(sdk.plugins.checkHealth('api')).resolves.toBe(true);
+  });
+
+  test('should keep the host tree mounted when a health check fails', async () => {
+    let instance: any;
+    sdk = null;
+
+    render(
+      <SDKProvider
+        config={{ plugins: [createPlugin({ name: 'api', version: '1.0.0', healthCheck: () => false })] }}
+        onInitialized={created => { instance = created; }}
+      >
+        <main>Host app</main>
+      </SDKProvider>
+    );
+    expect(await screen.findByText('Host app')).toBeTruthy();
+
+    await act(async () => {
+      await expect(instance.plugins.checkHealth('api')).resolves.toBe(false);
+    });
+
+    expect(instance.plugins.getErrorCount('api')).toBe(1);
+    expect(screen.getByText('Host app')).toBeTruthy();
+    expect(screen.queryByText('SDK Error')).toBeNull();
+  });
+
+  test('should count render errors of plugin components', async () => {
+    const Broken = () => {
+      throw new Error('render failed');
+    };
+    sdk = null;
+
+    render(
+      <SDKProvider
+        config={{
+          pluginHealth: { errorThreshold: 1 },
+          plugins: [createPlugin({ name: 'broken', version: '1.0.0', component: Broken })]
+        }}
+      >
+        <PluginRenderer pluginName="broken" fallback={<span>unavailable</span>} />
+      </SDKProvider>
+    );
+
+    expect(await screen.findByText("Plugin 'broken' is disabled")).toBeTruthy();
+  });
+});
@@ -0,0 +1,117 @@
+import { createSDKManager, createPlugin } from '../src';
+
+describe('Plugin hooks', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    sdk = createSDKManager({
+      name: 'Test SDK',
+      version: '1.0.0',
+      initialState: { count: 0 }
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should call onMount and onUnmount of enabled plugins', async () => {
+    const onMount = jest.fn();
+    const onUnmount = jest.fn();
+    sdk = createSDKManager({
+      plugins: [createPlugin({ name: 'widget', version: '1.0.0', hooks: { onMount, onUnmount } })]
+    });
+
+    await sdk.initialize();
+    expect(onMount).toHaveBeenCalledTimes(1);
+
+    await sdk.destroy();
+    expect(onUnmount).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not call hooks of disabled plugins', async () => {
+    const onMount = jest.fn();
+    sdk = createSDKManager({
+      plugins: [createPlugin({ name: 'widget', version: '1.0.0', enabled: false, hooks: { onMount } })]
+    });
+
+    await sdk.initialize();
+    expect(onMount).not.toHaveBeenCalled();
+  });
+
+  test('should pass state changes to onStateChange', async () => {
+    const onStateChange = jest.fn();
+    await sdk.plugins.register(createPlugin({ name: 'counter', version: '1.0.0', hooks: { onStateChange } }));
+
+    sdk.state.setState({ count: 1 });
+
+    expect(onStateChange).toHaveBeenCalledWith(
+      expect.objectContaining({ count: 1 }),
+      expect.objectContaining({ count: 0 })
+    );
+  });
+
+  test('should unsubscribe hooks when the plugin is disabled', async () => {
+    const onStateChange = jest.fn();
+    await sdk.plugins.register(createPlugin({ name: 'counter', version: '1.0.0', hooks: { onStateChange } }));
+
+    await sdk.plugins.disable('counter');
+    sdk.state.setState({ count: 1 });
+    expect(onStateChange).not.toHaveBeenCalled();
+
+    await sdk.plugins.enable('counter');
+    sdk.state.setState({ count: 2 });
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('should pass errors thrown by a hook to the plugin onError', async () => {
+    const onError = jest.fn();
+    const sdkError = jest.fn();
+    sdk.lifecycle.on('error', sdkError);
+    await sdk.plugins.register(createPlugin({
+      name: 'counter',
+      version: '1.0.0',
+      hooks: {
+        onStateChange: () => { throw new Error('hook failed'); },
+        onError
+      }
+    }));
+
+    sdk.state.setState({ count: 1 });
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'hook failed' }));
+    expect(sdkError).toHaveBeenCalledWith(expect.objectContaining({ message: 'hook failed' }), 'stateChange');
+  });
+
+  test('should pass initialize errors to the plugin onError', async () => {
+    const onError = jest.fn();
+    await sdk.plugins.register(createPlugin({
+      name: 'fragile',
+      version: '1.0.0',
+      enabled: false,
+      initialize: () => { throw new Error('init failed'); },
+      hooks: { onError }
+    }));
+
+    await expect(sdk.plugins.enable('fragile')).rejects.toThrow('init failed');
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'init failed' }));
+  });
+
+  test('should not pass errors of other plugins to onError', async () => {
+    const onError = jest.fn();
+    await sdk.plugins.register(createPlugin({ name: 'observer', version: '1.0.0', hooks: { onError } }));
+
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'broken',
+      version: '1.0.0',
+      initialize: () => { throw new Error('boom'); }
+    }))).rejects.toThrow('boom');
+
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { createSDKManager, createPlugin, SDKProvider, PluginSettingsForm } from '../src';
+
+const schema = {
+  apiKey: { type: 'string' as const, required: true },
+  region: { type: 'string' as const, enum: ['eu', 'us'], default: 'eu' },
+  sampleRate: { type: 'number' as const, default: 1 },
+  verbose: { type: 'boolean' as const, default: false }
+};
+
+const createAnalytics = (initialize?: any) => createPlugin({
+  name: 'analytics',
+  version: '1.0.0',
+  settings: schema,
+  initialize
+});
+
+describe('Plugin settings', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+      sdk = null;
+    }
+  });
+
+  test('should merge defaults with host values and expose them to the plugin', async () => {
+    let context: any;
+    sdk = createSDKManager({ pluginSettings: { analytics: { apiKey: 'abc', region: 'us' } } });
+
+    await sdk.plugins.register(createAnalytics((ctx: any) => { context = ctx; }));
+
+    expect(context.getSettings()).toEqual({ apiKey: 'abc', region: 'us', sampleRate: 1, verbose: false });
+  });
+
+  test('should reject invalid host values at register time', async () => {
+    sdk = createSDKManager({ pluginSettings: { analytics: { region: 'asia' } } });
+
+    await expect(sdk.plugins.register(createAnalytics())).rejects.toMatchObject({
+      details: expect.objectContaining({
+        code: 'INVALID_PLUGIN_SETTINGS',
+        details: {
+          errors: ['settings.apiKey is required', 'settings.region must be one of eu, us']
+        }
+      })
+    });
+    expect(sdk.plugins.get('analytics')).toBeUndefined();
+  });
+
+  test('should validate and persist user changes', async () => {
+    const config = { pluginSettings: { analytics: { apiKey: 'abc' } } };
+    sdk = createSDKManager(config);
+    await sdk.plugins.register(createAnalytics());
+    const listener = jest.fn();
+    sdk.plugins.subscribeSettings('analytics', listener);
+
+    expect(() => sdk.plugins.updateSettings('analytics', { sampleRate: 'all' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_PLUGIN_SETTINGS' })
+    );
+    sdk.plugins.updateSettings('analytics', { sampleRate: 0.5 });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ sampleRate: 0.5 }));
+    await sdk.destroy();
+
+    sdk = createSDKManager(config);
+    await sdk.plugins.register(createAnalytics());
+    expect(sdk.plugins.getSettings('analytics').sampleRate).toBe(0.5);
+
+    sdk.plugins.resetSettings('analytics');
+    expect(sdk.plugins.getSettings('analytics').sampleRate).toBe(1);
+  });
+
+  test('should render a settings form generated from the schema', async () => {
+    render(
+      <SDKProvider config={{ plugins: [createAnalytics()], pluginSettings: { analytics: { apiKey: 'abc' } } }}>
+        <PluginSettingsForm pluginName="analytics" />
+      </SDKProvider>
+    );
+
+    const select = await screen.findByRole('combobox');
+    // SDK 在 act 之外完成初始化，先让挂载后的 effect 执行完
+    await act(async () => undefined);
+    expect((select as HTMLSelectElement).value).toBe('eu');
+    expect(screen.getByRole('checkbox')).toBeTruthy();
+
+    fireEvent.change(screen.getByDisplayValue('abc'), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(screen.getByText(/settings\.apiKey is required/)).toBeTruthy();
+
+    fireEvent.change(screen.getByDisplayValue(''), { target: { value: 'xyz' } });
+    fireEvent.change(select, { target: { value: 'us' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(screen.queryByText(/is required/)).toBeNull();
+    expect(JSON.parse(localStorage.getItem('react-sdk-manager-state:settings:analytics')!)).toEqual({
+      apiKey: 'xyz',
+      region: 'us',
+      sampleRate: 1,
+      verbose: false
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { createSDKManager, createPlugin, SDKProvider, useSDK, usePluginState } from '../src';
+
+describe('Plugin state slices', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sdk = createSDKManager({
+      name: 'Test SDK',
+      version: '1.0.0',
+      initialState: { count: 0 }
+    });
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+  });
+
+  test('should create the slice on enable and expose it through the context', async () => {
+    let context: any;
+    await sdk.plugins.register(createPlugin({
+      name: 'cart',
+      version: '1.0.0',
+      enabled: false,
+      initialState: { items: [] as string[] },
+      initialize: ctx => { context = ctx; }
+    }));
+    expect(sdk.state.getSlice('cart')).toBeUndefined();
+
+    await sdk.plugins.enable('cart');
+    context.setState((prev: any) => ({ items: [...prev.items, 'apple'] }));
+
+    expect(context.getState()).toEqual({ items: ['apple'] });
+    expect(sdk.state.getState()).toEqual({ count: 0 });
+  });
+
+  test('should keep slices of different plugins apart', async () => {
+    await sdk.plugins.register(createPlugin({ name: 'a', version: '1.0.0', initialState: { value: 1 } }));
+    await sdk.plugins.register(createPlugin({ name: 'b', version: '1.0.0', initialState: { value: 2 } }));
+    const listener = jest.fn();
+    sdk.state.subscribeSlice('b', listener);
+
+    sdk.plugins.createContext(sdk.plugins.get('a')).setState({ value: 10 });
+
+    expect(sdk.state.getSlice('a')).toEqual({ value: 10 });
+    expect(sdk.state.getSlice('b')).toEqual({ value: 2 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should apply the cleanup policy on unregister', async () => {
+    sdk = createSDKManager({ persist: true, persistKey: 'test-state' });
+    await sdk.plugins.register(createPlugin({ name: 'kept', version: '1.0.0', initialState: { n: 0 }, stateCleanup: 'keep' }));
+    await sdk.plugins.register(createPlugin({ name: 'removed', version: '1.0.0', initialState: { n: 0 } }));
+    await sdk.plugins.register(createPlugin({ name: 'purged', version: '1.0.0', initialState: { n: 0 }, stateCleanup: 'purge' }));
+    ['kept', 'removed', 'purged'].forEach(name => sdk.state.setSlice(name, { n: 1 }));
+
+    for (const name of ['kept', 'removed', 'purged']) {
+      await sdk.plugins.unregister(name);
+    }
+
+    expect(sdk.state.getSlice('kept')).toEqual({ n: 1 });
+    expect(sdk.state.hasSlice('removed')).toBe(false);
+    expect(localStorage.getItem('test-state:removed')).toBe('{"n":1}');
+    expect(sdk.state.hasSlice('purged')).toBe(false);
+    expect(localStorage.getItem('test-state:purged')).toBeNull();
+  });
+
+  test('should restore a persisted slice when the plugin is enabled again', async () => {
+    sdk = createSDKManager({ persist: true, persistKey: 'test-state' });
+    const plugin = createPlugin({ name: 'prefs', version: '1.0.0', initialState: { theme: 'light', size: 1 } });
+    await sdk.plugins.register(plugin);
+    sdk.state.setSlice('prefs', { theme: 'dark' });
+    await sdk.plugins.unregister('prefs');
+
+    await sdk.plugins.register(plugin);
+
+    expect(sdk.state.getSlice('prefs')).toEqual({ theme: 'dark', size: 1 });
+  });
+
+  test('usePluginState should re-render only when its slice changes', async () => {
+    let renders = 0;
+    let instance: any;
+    const Capture = () => {
+      instance = useSDK();
+      return null;
+    };
+    const Counter = () => {
+      const [slice] = usePluginState<{ value: number }>('counter');
+      renders++;
+      return <span>value: {slice ? slice.value : 'none'}</span>;
+    };
+
+    sdk = null;
+    render(
+      <SDKProvider
+        config={{
+          plugins: [
+            createPlugin({ name: 'counter', version: '1.0.0', initialState: { value: 1 } }),
+            createPlugin({ name: 'other', version: '1.0.0', initialState: { value: 1 } })
+          ]
+        }}
+      >
+        <Capture />
+        <Counter />
+      </SDKProvider>
+    );
+
+    expect(await screen.findByText('value: 1')).toBeTruthy();
+    const rendersBefore = renders;
+
+    act(() => {
+      instance.state.setSlice('other', { value: 2 });
+      instance.state.setState({ unrelated: true });
+    });
+    expect(renders).toBe(rendersBefore);
+
+    act(() => {
+      instance.state.setSlice('counter', { value: 3 });
+    });
+    expect(screen.getByText('value: 3')).toBeTruthy();
+  });
+});
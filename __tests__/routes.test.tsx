@@ -0,0 +1,131 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { createSDKManager, createPlugin, matchPath, validatePlugin, SDKProvider, PluginRoutes, usePluginRoutes } from '../src';
+
+const Page = ({ params, location }: any) => <h1>{`${location} ${JSON.stringify(params)}`}</h1>;
+
+describe('Plugin routes', () => {
+  let sdk: any;
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+      sdk = null;
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should match path patterns', () => {
+    expect(matchPath('/reports/:id', '/reports/42?tab=1')).toEqual({ id: '42' });
+    expect(matchPath('/reports/:id', '/reports/42/edit')).toBeNull();
+    expect(matchPath('/docs/*', '/docs/guide/setup')).toEqual({ '*': 'guide/setup' });
+    expect(matchPath('/docs/*', '/docs')).toEqual({ '*': '' });
+    expect(matchPath('/users/:name/', '/users/J%C3%BCrgen')).toEqual({ name: 'Jürgen' });
+  });
+
+  test('should pick the most specific route of enabled plugins', async () => {
+    sdk = createSDKManager();
+    await sdk.plugins.register(createPlugin({
+      name: 'docs',
+      version: '1.0.0',
+      routes: [{ path: '/docs/*', component: Page }, { path: '/docs/:id', component: Page, title: 'Document' }]
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'editor',
+      version: '1.0.0',
+      routes: [{ path: '/docs/new', component: Page, title: 'New document' }]
+    }));
+
+    expect(sdk.plugins.matchRoute('/docs/new')).toMatchObject({ route: { pluginName: 'editor' }, params: {} });
+    expect(sdk.plugins.matchRoute('/docs/7')).toMatchObject({ route: { key: 'docs:route:1' }, params: { id: '7' } });
+    expect(sdk.plugins.matchRoute('/docs/a/b').route.path).toBe('/docs/*');
+
+    await sdk.plugins.disable('editor');
+    expect(sdk.plugins.getRoutes().map((route: any) => route.path)).toEqual(['/docs/*', '/docs/:id']);
+    expect(sdk.plugins.matchRoute('/docs/new').route.path).toBe('/docs/:id');
+  });
+
+  test('should run guards against state and route params', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    sdk = createSDKManager({ initialState: { user: null } });
+    await sdk.plugins.register(createPlugin({
+      name: 'admin',
+      version: '1.0.0',
+      routes: [
+        {
+          path: '/admin/:section',
+          component: Page,
+          guards: [
+            ({ state }) => (state.user ? true : '/login'),
+            ({ state, params }) => state.user.role === 'admin' || params.section === 'profile'
+          ]
+        },
+        { path: '/broken', component: Page, guards: [() => { throw new Error('guard failed'); }] }
+      ]
+    }));
+
+    expect(sdk.plugins.resolveRoute('/admin/users')).toMatchObject({ status: 'redirect', redirectTo: '/login' });
+    sdk.state.setState({ user: { role: 'viewer' } });
+    expect(sdk.plugins.resolveRoute('/admin/users').status).toBe('forbidden');
+    expect(sdk.plugins.resolveRoute('/admin/profile').status).toBe('matched');
+    expect(sdk.plugins.resolveRoute('/admin').status).toBe('notFound');
+    expect(sdk.plugins.resolveRoute('/broken').status).toBe('forbidden');
+    expect(sdk.plugins.getErrorCount('admin')).toBe(1);
+  });
+
+  test('should reject invalid route contributions', () => {
+    expect(validatePlugin({
+      name: 'broken',
+      version: '1.0.0',
+      routes: [{ path: 'reports/*/x', component: Page, guards: ['admin'] }] as any
+    })).toEqual([
+      'plugin.routes[0].path must be a string starting with /',
+      'plugin.routes[0].guards must be an array of functions'
+    ]);
+  });
+
+  test('<PluginRoutes> should follow the location and remove routes of disabled plugins', async () => {
+    const onRedirect = jest.fn();
+    let instance: any;
+    const Nav = () => (
+      <nav>{usePluginRoutes().map(route => <a key={route.key} href={route.path}>{route.title}</a>)}</nav>
+    );
+    // config 和 onInitialized 保持同一引用，重新渲染时不会重建 SDK
+    const config = {
+      initialState: { signedIn: false },
+      plugins: [
+        createPlugin({
+          name: 'reports',
+          version: '1.0.0',
+          routes: [
+            { path: '/reports/:id', component: Page, title: 'Report' },
+            { path: '/private', component: Page, guards: [({ state }: any) => state.signedIn || '/login'] }
+          ]
+        })
+      ]
+    };
+    const onInitialized = (created: any) => { instance = created; };
+    const App = ({ location }: { location: string }) => (
+      <SDKProvider config={config} onInitialized={onInitialized}>
+        <Nav />
+        <PluginRoutes location={location} onRedirect={onRedirect} notFound={<p>Not found</p>} />
+      </SDKProvider>
+    );
+
+    const { rerender } = render(<App location="/reports/3" />);
+    expect(await screen.findByText('/reports/3 {"id":"3"}')).toBeTruthy();
+    expect(screen.getByText('Report')).toBeTruthy();
+
+    rerender(<App location="/private" />);
+    await waitFor(() => expect(onRedirect).toHaveBeenCalledWith('/login'));
+
+    rerender(<App location="/reports/4" />);
+    expect(screen.getByText('/reports/4 {"id":"4"}')).toBeTruthy();
+
+    await act(async () => {
+      await instance.plugins.disable('reports');
+    });
+    expect(screen.getByText('Not found')).toBeTruthy();
+    expect(screen.queryByText('Report')).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { satisfies, isValidRange } from '../src/utils/semver';
+
+describe('semver', () => {
+  test('should match caret, tilde and comparator ranges', () => {
+    expect(satisfies('2.3.1', '^2.1.0')).toBe(true);
+    expect(satisfies('3.0.0', '^2.1.0')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.0')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.0')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfies('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfies('2.0.0', '1.x || >=2.1.0')).toBe(false);
+    expect(satisfies('1.4.0', '1.0.0 - 1.4.0')).toBe(true);
+    expect(satisfies('4.0.0', '*')).toBe(true);
+  });
+
+  test('should exclude prereleases unless the range opts in', () => {
+    expect(satisfies('2.0.0-beta.1', '^1.0.0')).toBe(false);
+    expect(satisfies('2.0.0-beta.2', '>=2.0.0-beta.1')).toBe(true);
+  });
+
+  test('should reject invalid ranges and versions', () => {
+    expect(isValidRange('^abc')).toBe(false);
+    expect(satisfies('not-a-version', '*')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { createSDKManager, createPlugin, validatePlugin, SDKProvider, Slot, useSDK } from '../src';
+
+const Button = ({ label }: { label: string }) => <button>{label}</button>;
+
+describe('Plugin slots', () => {
+  let sdk: any;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sdk = createSDKManager({ name: 'Test SDK', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+    }
+  });
+
+  test('should collect contributions of enabled plugins by order', async () => {
+    await sdk.plugins.register(createPlugin({
+      name: 'editor',
+      version: '1.0.0',
+      slots: [
+        { slot: 'toolbar', component: Button, props: { label: 'Save' }, order: 10 },
+        { slot: 'sidebar', component: Button, props: { label: 'Outline' } }
+      ]
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'share',
+      version: '1.0.0',
+      slots: [{ slot: 'toolbar', component: Button, props: { label: 'Share' }, order: -1 }]
+    }));
+    await sdk.plugins.register(createPlugin({
+      name: 'print',
+      version: '1.0.0',
+      enabled: false,
+      slots: [{ slot: 'toolbar', component: Button, props: { label: 'Print' } }]
+    }));
+
+    const toolbar = sdk.plugins.getSlotContributions('toolbar');
+
+    expect(toolbar.map((item: any) => item.pluginName)).toEqual(['share', 'editor']);
+    expect(toolbar[1]).toMatchObject({ key: 'editor:0', order: 10, props: { label: 'Save' } });
+    expect(sdk.plugins.getSlotContributions('footer')).toEqual([]);
+  });
+
+  test('should reject invalid slot contributions', () => {
+    expect(validatePlugin({
+      name: 'broken',
+      version: '1.0.0',
+      slots: [{ slot: '', component: 'div', order: 'first' }] as any
+    })).toEqual([
+      'plugin.slots[0].slot is required',
+      'plugin.slots[0].component must be a React component',
+      'plugin.slots[0].order must be a number'
+    ]);
+  });
+
+  test('<Slot> should update as plugins are enabled and disabled', async () => {
+    let instance: any;
+    const Capture = () => {
+      instance = useSDK();
+      return null;
+    };
+
+    sdk = null;
+    render(
+      <SDKProvider
+        config={{
+          plugins: [
+            createPlugin({
+              name: 'share',
+              version: '1.0.0',
+              slots: [{ slot: 'toolbar', component: Button, props: { label: 'Share' } }]
+            }),
+            createPlugin({
+              name: 'print',
+              version: '1.0.0',
+              enabled: false,
+              slots: [{ slot: 'toolbar', component: Button, props: { label: 'Print' }, order: -1 }]
+            })
+          ]
+        }}
+      >
+        <Capture />
+        <Slot name="toolbar" props={{ label: 'default' }} fallback={<span>empty</span>} />
+      </SDKProvider>
+    );
+
+    expect(await screen.findByText('Share')).toBeTruthy();
+    expect(screen.queryByText('Print')).toBeNull();
+
+    await act(async () => {
+      await instance.plugins.enable('print');
+    });
+    expect(screen.getAllByRole('button').map(button => button.textContent)).toEqual(['Print', 'Share']);
+
+    await act(async () => {
+      await instance.plugins.disable('print');
+      await instance.plugins.disable('share');
+    });
+    expect(screen.getByText('empty')).toBeTruthy();
+  });
+
+  test('<Slot> should isolate a contribution that fails to render', async () => {
+    const onError = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const Broken = () => {
+      throw new Error('render failed');
+    };
+
+    sdk = null;
+    render(
+      <SDKProvider
+        config={{
+          plugins: [
+            createPlugin({ name: 'broken', version: '1.0.0', slots: [{ slot: 'toolbar', component: Broken }] }),
+            createPlugin({
+              name: 'share',
+              version: '1.0.0',
+              slots: [{ slot: 'toolbar', component: Button, props: { label: 'Share' } }]
+            })
+          ]
+        }}
+      >
+        <Slot name="toolbar" onError={onError} />
+      </SDKProvider>
+    );
+
+    expect(await screen.findByText('Share')).toBeTruthy();
+    expect(onError).toHaveBeenCalledWith('broken', expect.objectContaining({ message: 'render failed' }));
+    jest.restoreAllMocks();
+  });
+});
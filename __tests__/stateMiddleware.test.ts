@@ -0,0 +1,120 @@
+import { createSDKManager, createPlugin, createStateManager } from '../src';
+
+describe('State middleware', () => {
+  let sdk: any;
+
+  afterEach(async () => {
+    if (sdk) {
+      await sdk.destroy();
+      sdk = null;
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('should let middleware transform, veto and observe updates', () => {
+    const state = createStateManager({ initialState: { count: 0, locked: false } });
+    const listener = jest.fn();
+    const committed: number[] = [];
+    state.subscribe(listener);
+
+    state.use('clamp', (update, next) => {
+      next({ ...update.nextState, count: Math.min(update.nextState.count, 10) });
+    });
+    state.use('lock', (update, next) => {
+      if (!update.prevState.locked) next();
+    });
+    state.use('log', (_update, next) => {
+      next();
+      committed.push(state.getState().count);
+    });
+
+    state.setState({ count: 42 });
+    expect(state.getState().count).toBe(10);
+
+    state.setState({ locked: true });
+    state.setState({ count: 3 });
+
+    expect(state.getState()).toEqual({ count: 10, locked: true });
+    expect(committed).toEqual([10, 10]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('should run middleware in the configured order', () => {
+    const calls: string[] = [];
+    const state = createStateManager({ initialState: {}, middlewareOrder: ['auth', 'audit'] });
+    ['logger', 'audit', 'auth'].forEach(name => {
+      state.use(name, (_update, next) => {
+        calls.push(name);
+        next();
+      });
+    });
+
+    state.setState({ value: 1 });
+    expect(calls).toEqual(['auth', 'audit', 'logger']);
+
+    state.setMiddlewareOrder(['logger']);
+    expect(state.getMiddleware()).toEqual(['logger', 'audit', 'auth']);
+  });
+
+  test('should skip middleware that throws', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const state = createStateManager({ initialState: { count: 0 } });
+    state.use('broken', () => {
+      throw new Error('middleware failed');
+    });
+
+    state.setState({ count: 1 });
+
+    expect(state.getState().count).toBe(1);
+    expect(console.error).toHaveBeenCalledWith('Error in state middleware broken:', expect.any(Error));
+  });
+
+  test('should install plugin middleware on enable and remove it on disable', async () => {
+    sdk = createSDKManager({
+      initialState: { theme: 'light' },
+      stateMiddlewareOrder: ['plugin:themes', 'audit', 'plugin:audit']
+    });
+    const audit = jest.fn((_update: any, next: () => void) => next());
+    const hostAudit = jest.fn((_update: any, next: () => void) => next());
+    sdk.state.use('audit', hostAudit);
+    await sdk.plugins.register(createPlugin({ name: 'audit', version: '1.0.0', stateMiddleware: audit }));
+    await sdk.plugins.register(createPlugin({
+      name: 'themes',
+      version: '1.0.0',
+      stateMiddleware: (update, next) => {
+        if (['light', 'dark'].indexOf(update.nextState.theme) !== -1) next();
+      }
+    }));
+    expect(sdk.state.getMiddleware()).toEqual(['plugin:themes', 'audit', 'plugin:audit']);
+
+    sdk.state.setState({ theme: 'neon' });
+    expect(sdk.state.getState().theme).toBe('light');
+    expect(audit).not.toHaveBeenCalled();
+
+    await sdk.plugins.disable('themes');
+    sdk.state.setState({ theme: 'neon' });
+    expect(sdk.state.getState().theme).toBe('neon');
+    expect(sdk.state.getMiddleware()).toEqual(['audit', 'plugin:audit']);
+
+    // 宿主的同名中间件不受插件禁用影响
+    await sdk.plugins.disable('audit');
+    expect(sdk.state.getMiddleware()).toEqual(['audit']);
+    sdk.state.setState({ theme: 'dark' });
+    expect(hostAudit).toHaveBeenCalledTimes(2);
+    expect(audit).toHaveBeenCalledTimes(1);
+  });
+
+  test('should require state:write to contribute middleware', async () => {
+    sdk = createSDKManager();
+
+    await expect(sdk.plugins.register(createPlugin({
+      name: 'reader',
+      version: '1.0.0',
+      permissions: ['state:read'],
+      stateMiddleware: (_update, next) => next()
+    }))).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'PERMISSION_DENIED' })
+    });
+    expect(sdk.state.getMiddleware()).toEqual([]);
+  });
+});
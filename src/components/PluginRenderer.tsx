@@ -1,5 +1,8 @@
-import React from 'react';
-import { useSDK } from './SDKProvider';
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { CommandInfo, Plugin, PluginSettingDefinition, PluginSettings, PluginStatus, SDKError } from '../types';
+import { useSDK, usePluginRoute, usePluginSettings, usePluginStatus } from './SDKProvider';
+import { normalizeDependencies } from '../utils/pluginHelpers';
+import { matchShortcut } from '../utils/shortcuts';
 
 export interface PluginRendererProps {
   pluginName: string;
@@ -15,11 +18,22 @@ export const PluginRenderer: React.FC<PluginRendererProps> = ({
   onError
 }) => {
   const sdk = useSDK();
+  const plugin = sdk.plugins.get(pluginName);
+  const status = usePluginStatus(pluginName);
 
-  try {
-    // 获取插件
-    const plugin = sdk.plugins.get(pluginName);
+  // 插件加载或初始化失败时通知调用方
+  useEffect(() => {
+    if (!onError) return;
 
+    return sdk.plugins.subscribeStatus(event => {
+      if (event.name === pluginName && event.status === 'failed') {
+        const error = event.error instanceof Error ? event.error : new Error(String(event.error));
+        onError(error);
+      }
+    });
+  }, [sdk, pluginName, onError]);
+
+  try {
     // 检查插件是否存在
     if (!plugin) {
       const error = new Error(`Plugin '${pluginName}' not found`);
@@ -29,6 +43,19 @@ export const PluginRenderer: React.FC<PluginRendererProps> = ({
       return <div>Plugin '{pluginName}' not found</div>;
     }
 
+    // 加载或初始化中显示 fallback
+    if (status === 'loading' || status === 'initializing') {
+      return <>{fallback}</>;
+    }
+
+    if (status === 'failed') {
+      return fallback || <div>Plugin '{pluginName}' failed to start</div>;
+    }
+
+    if (status === 'disabling') {
+      return <div>Plugin '{pluginName}' is disabling</div>;
+    }
+
     // 检查插件是否启用
     if (!plugin.enabled) {
       return <div>Plugin '{pluginName}' is disabled</div>;
@@ -39,9 +66,24 @@ export const PluginRenderer: React.FC<PluginRendererProps> = ({
       return <div>Plugin '{pluginName}' has no component</div>;
     }
 
-    // 渲染插件组件
+    // 渲染插件组件，渲染错误计入插件的运行时错误
     const PluginComponent = plugin.component;
-    return <PluginComponent {...props} sdk={sdk} />;
+    return (
+      <PluginErrorBoundary
+        pluginName={pluginName}
+        onError={error => {
+          sdk.plugins.recordError(pluginName, error);
+          if (onError) {
+            onError(error);
+          } else {
+            console.error(`Error rendering plugin '${pluginName}':`, error);
+          }
+        }}
+        fallback={fallback || <div>Error rendering plugin '{pluginName}'</div>}
+      >
+        <PluginComponent {...props} sdk={sdk} />
+      </PluginErrorBoundary>
+    );
 
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -93,77 +135,306 @@ export const PluginList: React.FC<PluginListProps> = ({
   );
 };
 
+// Slot Component - 渲染启用插件向命名插槽提供的组件，插件启用或禁用时自动更新
+export interface SlotProps {
+  name: string;
+  // 传给每个组件的属性，插件在 slots 中声明的 props 优先
+  props?: Record<string, any>;
+  // 插槽为空时显示
+  fallback?: React.ReactNode;
+  onError?: (pluginName: string, error: Error) => void;
+}
+
+export const Slot: React.FC<SlotProps> = ({
+  name,
+  props = {},
+  fallback = null,
+  onError
+}) => {
+  const sdk = useSDK();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  // 任一插件状态变化时重新收集插槽内容
+  useEffect(() => sdk.plugins.subscribeStatus(() => forceUpdate()), [sdk]);
+
+  const contributions = sdk.plugins.getSlotContributions(name);
+  if (contributions.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {contributions.map(contribution => {
+        const Component = contribution.component;
+        const { pluginName } = contribution;
+        return (
+          <PluginErrorBoundary
+            key={contribution.key}
+            pluginName={pluginName}
+            onError={error => {
+              sdk.plugins.recordError(pluginName, error);
+              if (onError) {
+                onError(pluginName, error);
+              } else {
+                console.error(`Error rendering slot '${name}' of plugin '${pluginName}':`, error);
+              }
+            }}
+          >
+            <Component {...props} {...contribution.props} sdk={sdk} />
+          </PluginErrorBoundary>
+        );
+      })}
+    </>
+  );
+};
+
+// Plugin Routes - 渲染与当前路径匹配的插件页面；路径和跳转由宿主路由提供，不依赖具体路由库
+export interface PluginRoutesProps {
+  // 当前路径，如 react-router 的 useLocation().pathname
+  location: string;
+  // 守卫要求重定向时调用，由宿主路由执行跳转
+  onRedirect?: (to: string) => void;
+  // 没有匹配的路由时显示
+  notFound?: React.ReactNode;
+  // 守卫拒绝访问时显示
+  forbidden?: React.ReactNode;
+  onError?: (pluginName: string, error: Error) => void;
+}
+
+export const PluginRoutes: React.FC<PluginRoutesProps> = ({
+  location,
+  onRedirect,
+  notFound = null,
+  forbidden = null,
+  onError
+}) => {
+  const sdk = useSDK();
+  const resolution = usePluginRoute(location);
+  const redirectTo = resolution.status === 'redirect' ? resolution.redirectTo : undefined;
+  const onRedirectRef = useRef(onRedirect);
+  onRedirectRef.current = onRedirect;
+
+  // 渲染完成后再通知宿主跳转
+  useEffect(() => {
+    if (redirectTo !== undefined && onRedirectRef.current) {
+      onRedirectRef.current(redirectTo);
+    }
+  }, [redirectTo, location]);
+
+  if (resolution.status === 'notFound') {
+    return <>{notFound}</>;
+  }
+  if (resolution.status === 'forbidden') {
+    return <>{forbidden}</>;
+  }
+  if (resolution.status === 'redirect') {
+    return null;
+  }
+
+  const { route, params } = resolution;
+  const Component = route.component;
+  return (
+    <PluginErrorBoundary
+      key={route.key}
+      pluginName={route.pluginName}
+      onError={error => {
+        sdk.plugins.recordError(route.pluginName, error);
+        if (onError) {
+          onError(route.pluginName, error);
+        } else {
+          console.error(`Error rendering route '${route.path}' of plugin '${route.pluginName}':`, error);
+        }
+      }}
+    >
+      <Component params={params} location={location} sdk={sdk} />
+    </PluginErrorBoundary>
+  );
+};
+
+interface PluginErrorBoundaryProps {
+  pluginName: string;
+  onError: (error: Error) => void;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// 隔离单个插件组件的渲染错误，避免影响宿主和其他插件；插件重新挂载后恢复渲染
+class PluginErrorBoundary extends React.Component<PluginErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback ?? null : this.props.children;
+  }
+}
+
 // Plugin Manager Component - 插件管理界面
 export interface PluginManagerProps {
   showDisabled?: boolean;
+  // 为声明了 settings 的插件显示设置表单
+  showSettings?: boolean;
   onPluginToggle?: (pluginName: string, enabled: boolean) => void;
 }
 
+// 因依赖关系无法直接切换、等待用户确认级联操作的插件
+interface PendingCascade {
+  pluginName: string;
+  enable: boolean;
+  message: string;
+}
+
 export const PluginManager: React.FC<PluginManagerProps> = ({
   showDisabled = true,
+  showSettings = true,
   onPluginToggle
 }) => {
   const sdk = useSDK();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  const [pendingCascade, setPendingCascade] = useState<PendingCascade | null>(null);
+  const [openSettings, setOpenSettings] = useState<string | null>(null);
+
+  // 任一插件状态变化时刷新列表
+  useEffect(() => sdk.plugins.subscribeStatus(() => forceUpdate()), [sdk]);
+
   const allPlugins = sdk.plugins.getAll();
   const plugins = showDisabled ? allPlugins : allPlugins.filter(p => p.enabled);
 
+  const applyToggle = async (pluginName: string, enable: boolean, cascade: boolean) => {
+    const touched = enable
+      ? await sdk.plugins.enable(pluginName, { withDependencies: cascade })
+      : await sdk.plugins.disable(pluginName, { cascade });
+
+    if (onPluginToggle) {
+      touched.forEach(name => onPluginToggle(name, enable));
+    }
+  };
+
   const handleToggle = async (pluginName: string, currentEnabled: boolean) => {
+    setPendingCascade(null);
+
     try {
-      if (currentEnabled) {
-        await sdk.plugins.disable(pluginName);
+      await applyToggle(pluginName, !currentEnabled, false);
+    } catch (error) {
+      const code = getErrorCode(error);
+
+      // 依赖关系阻止切换时，提供级联操作
+      if (code === 'DEPENDENCY_NOT_ENABLED' || code === 'PLUGIN_HAS_ENABLED_DEPENDENTS') {
+        setPendingCascade({
+          pluginName,
+          enable: !currentEnabled,
+          message: error instanceof Error ? error.message : String(error)
+        });
       } else {
-        await sdk.plugins.enable(pluginName);
-      }
-      
-      if (onPluginToggle) {
-        onPluginToggle(pluginName, !currentEnabled);
+        console.error(`Failed to toggle plugin ${pluginName}:`, error);
       }
+    } finally {
+      forceUpdate();
+    }
+  };
+
+  const handleCascade = async () => {
+    if (!pendingCascade) return;
+
+    const { pluginName, enable } = pendingCascade;
+    setPendingCascade(null);
+
+    try {
+      await applyToggle(pluginName, enable, true);
     } catch (error) {
       console.error(`Failed to toggle plugin ${pluginName}:`, error);
+    } finally {
+      forceUpdate();
     }
   };
 
   return (
     <div style={{ padding: '16px' }}>
       <h3>Plugin Manager</h3>
+      {pendingCascade && (
+        <div
+          style={{
+            padding: '8px',
+            margin: '4px 0',
+            backgroundColor: '#fff3cd',
+            border: '1px solid #ffeeba',
+            borderRadius: '4px'
+          }}
+        >
+          <p style={{ margin: '0 0 8px' }}>{pendingCascade.message}</p>
+          <button onClick={handleCascade} style={{ marginRight: '8px' }}>
+            {pendingCascade.enable ? 'Enable with dependencies' : 'Disable with dependents'}
+          </button>
+          <button onClick={() => setPendingCascade(null)}>Cancel</button>
+        </div>
+      )}
       <div>
         {plugins.map(plugin => (
-          <div 
-            key={plugin.name} 
-            style={{ 
-              display: 'flex', 
-              justifyContent: 'space-between', 
-              alignItems: 'center', 
+          <div
+            key={plugin.name}
+            style={{
               padding: '8px',
               border: '1px solid #ccc',
               margin: '4px 0',
               borderRadius: '4px'
             }}
           >
-            <div>
-              <strong>{plugin.name}</strong>
-              <span style={{ marginLeft: '8px', fontSize: '0.9em', color: '#666' }}>
-                v{plugin.version}
-              </span>
-              {plugin.dependencies && plugin.dependencies.length > 0 && (
-                <div style={{ fontSize: '0.8em', color: '#888' }}>
-                  Dependencies: {plugin.dependencies.join(', ')}
-                </div>
-              )}
-            </div>
-            <button
-              onClick={() => handleToggle(plugin.name, plugin.enabled)}
+            <div
               style={{
-                padding: '4px 8px',
-                backgroundColor: plugin.enabled ? '#dc3545' : '#28a745',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer'
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center'
               }}
             >
-              {plugin.enabled ? 'Disable' : 'Enable'}
-            </button>
+              <div>
+                <strong>{plugin.name}</strong>
+                <span style={{ marginLeft: '8px', fontSize: '0.9em', color: '#666' }}>
+                  v{plugin.version}
+                </span>
+                {renderStatus(sdk.plugins.getStatus(plugin.name))}
+                {plugin.description && (
+                  <div style={{ fontSize: '0.85em', color: '#555' }}>
+                    {plugin.description}
+                  </div>
+                )}
+                {Object.keys(normalizeDependencies(plugin.dependencies)).length > 0 && (
+                  <div style={{ fontSize: '0.8em', color: '#888' }}>
+                    Dependencies: {formatDependencies(plugin.dependencies)}
+                  </div>
+                )}
+              </div>
+              <div>
+                {showSettings && plugin.settings && (
+                  <button
+                    onClick={() => setOpenSettings(openSettings === plugin.name ? null : plugin.name)}
+                    style={{ marginRight: '8px', padding: '4px 8px' }}
+                  >
+                    Settings
+                  </button>
+                )}
+                <button
+                  onClick={() => handleToggle(plugin.name, plugin.enabled)}
+                  disabled={isTransitioning(sdk.plugins.getStatus(plugin.name))}
+                  style={{
+                    padding: '4px 8px',
+                    backgroundColor: plugin.enabled ? '#dc3545' : '#28a745',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {plugin.enabled ? 'Disable' : sdk.plugins.getStatus(plugin.name) === 'failed' ? 'Retry' : 'Enable'}
+                </button>
+              </div>
+            </div>
+            {openSettings === plugin.name && <PluginSettingsForm pluginName={plugin.name} />}
           </div>
         ))}
       </div>
@@ -172,4 +443,259 @@ export const PluginManager: React.FC<PluginManagerProps> = ({
       )}
     </div>
   );
-}; 
\ No newline at end of file
+};
+
+// Plugin Settings Form - 根据插件的 settings 定义生成的设置表单
+export interface PluginSettingsFormProps {
+  pluginName: string;
+  onSaved?: (settings: PluginSettings) => void;
+}
+
+export const PluginSettingsForm: React.FC<PluginSettingsFormProps> = ({
+  pluginName,
+  onSaved
+}) => {
+  const sdk = useSDK();
+  const [settings, updateSettings] = usePluginSettings(pluginName);
+  const [draft, setDraft] = useState<PluginSettings>(settings);
+  const [error, setError] = useState<string | null>(null);
+  const plugin = sdk.plugins.get(pluginName);
+  const schema = (plugin && plugin.settings) || {};
+
+  // 外部修改设置时同步草稿
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleChange = (key: string, value: unknown) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    try {
+      updateSettings(draft);
+      setError(null);
+      if (onSaved) {
+        onSaved(sdk.plugins.getSettings(pluginName));
+      }
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleReset = () => {
+    sdk.plugins.resetSettings(pluginName);
+    setError(null);
+  };
+
+  return (
+    <form
+      onSubmit={event => {
+        event.preventDefault();
+        handleSave();
+      }}
+      style={{ marginTop: '8px', fontSize: '0.9em' }}
+    >
+      {Object.keys(schema).map(key => (
+        <div key={key} style={{ margin: '4px 0' }}>
+          <label>
+            {schema[key].label || key}
+            {schema[key].required && ' *'}
+            {' '}
+            {renderSettingInput(key, schema[key], draft[key], handleChange)}
+          </label>
+          {schema[key].description && (
+            <div style={{ fontSize: '0.85em', color: '#888' }}>{schema[key].description}</div>
+          )}
+        </div>
+      ))}
+      {error && <p style={{ color: '#dc3545', margin: '4px 0' }}>{error}</p>}
+      <button type="submit" style={{ marginRight: '8px' }}>Save</button>
+      <button type="button" onClick={handleReset}>Reset</button>
+    </form>
+  );
+};
+
+// Command Palette - 无样式的命令面板：列出可用命令并绑定快捷键，界面由 children 渲染
+export interface CommandPaletteRenderProps {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  query: string;
+  setQuery: (query: string) => void;
+  // 当前可用且与 query 匹配的命令
+  commands: CommandInfo[];
+  // 执行命令并关闭面板
+  execute: (id: string, args?: any) => Promise<void>;
+}
+
+export interface CommandPaletteProps {
+  // 切换面板的快捷键，默认 'mod+k'
+  shortcut?: string;
+  // 是否绑定命令自身的快捷键，默认 true
+  bindShortcuts?: boolean;
+  onError?: (id: string, error: Error) => void;
+  children: (palette: CommandPaletteRenderProps) => React.ReactNode;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  shortcut = 'mod+k',
+  bindShortcuts = true,
+  onError,
+  children
+}) => {
+  const sdk = useSDK();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  // 命令注册、注销或状态变化（影响 when）时重新收集命令
+  useEffect(() => {
+    const unsubscribeCommands = sdk.commands.subscribe(forceUpdate);
+    const unsubscribeState = sdk.state.subscribe(() => forceUpdate());
+
+    return () => {
+      unsubscribeCommands();
+      unsubscribeState();
+    };
+  }, [sdk]);
+
+  const execute = async (id: string, args?: any) => {
+    setOpen(false);
+    setQuery('');
+    try {
+      await sdk.commands.execute(id, args);
+    } catch (error) {
+      if (onError) {
+        onError(id, error as Error);
+      } else {
+        console.error(`Error executing command '${id}':`, error);
+      }
+    }
+  };
+
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (matchShortcut(event, shortcut)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+        return;
+      }
+
+      if (!bindShortcuts) return;
+
+      // 多个命令使用同一快捷键时执行先注册的可用命令
+      const command = sdk.commands.list().find(item => (
+        item.available && !!item.shortcut && matchShortcut(event, item.shortcut)
+      ));
+      if (command) {
+        event.preventDefault();
+        executeRef.current(command.id);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [sdk, shortcut, bindShortcuts]);
+
+  const search = query.trim().toLowerCase();
+  const commands = sdk.commands.list().filter(command => (
+    command.available &&
+    (!search ||
+      command.title.toLowerCase().indexOf(search) !== -1 ||
+      command.id.toLowerCase().indexOf(search) !== -1)
+  ));
+
+  return <>{children({ open, setOpen, query, setQuery, commands, execute })}</>;
+};
+
+// 按设置类型选择输入控件：enum => select，boolean => checkbox，其余为文本或数字输入
+function renderSettingInput(
+  key: string,
+  definition: PluginSettingDefinition,
+  value: any,
+  onChange: (key: string, value: unknown) => void
+): React.ReactNode {
+  if (definition.enum) {
+    return (
+      <select
+        name={key}
+        value={value === undefined ? '' : String(value)}
+        onChange={event => {
+          const option = definition.enum!.find(item => String(item) === event.target.value);
+          onChange(key, option);
+        }}
+      >
+        {!definition.required && <option value="">-</option>}
+        {definition.enum.map(option => (
+          <option key={String(option)} value={String(option)}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (definition.type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        name={key}
+        checked={!!value}
+        onChange={event => onChange(key, event.target.checked)}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={definition.type === 'number' ? 'number' : 'text'}
+      name={key}
+      value={value === undefined ? '' : value}
+      onChange={event => {
+        const raw = event.target.value;
+        onChange(key, definition.type === 'number' && raw !== '' ? Number(raw) : raw);
+      }}
+    />
+  );
+}
+
+const STATUS_COLORS: Record<PluginStatus, string> = {
+  disabled: '#6c757d',
+  loading: '#17a2b8',
+  initializing: '#17a2b8',
+  enabled: '#28a745',
+  disabling: '#ffc107',
+  failed: '#dc3545'
+};
+
+// 加载、初始化和禁用过程中不允许切换
+function isTransitioning(status?: PluginStatus): boolean {
+  return status === 'loading' || status === 'initializing' || status === 'disabling';
+}
+
+function renderStatus(status?: PluginStatus): React.ReactNode {
+  if (!status) return null;
+
+  return (
+    <span style={{ marginLeft: '8px', fontSize: '0.8em', color: STATUS_COLORS[status] }}>
+      {status}
+    </span>
+  );
+}
+
+// 格式化依赖列表，带版本范围的依赖显示为 name@range
+function formatDependencies(dependencies: Plugin['dependencies']): string {
+  const ranges = normalizeDependencies(dependencies);
+  return Object.keys(ranges)
+    .map(name => ranges[name] === '*' ? name : `${name}@${ranges[name]}`)
+    .join(', ');
+}
+
+// 插件操作的错误会被包装，原始错误码位于 details 中
+function getErrorCode(error: unknown): string | undefined {
+  if (!(error instanceof SDKError)) return undefined;
+  return error.details instanceof SDKError ? error.details.code : error.code;
+}
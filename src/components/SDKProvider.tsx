@@ -1,5 +1,15 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { SDKManager, SDKManagerConfig } from '../types';
+import React, { createContext, useCallback, useContext, useEffect, useReducer, useState, ReactNode } from 'react';
+import {
+  SDKManager,
+  SDKManagerConfig,
+  CommandInfo,
+  LifecycleHook,
+  PluginAPI,
+  PluginRouteResolution,
+  PluginSettings,
+  PluginStatus,
+  RouteContribution
+} from '../types';
 import { createSDKManager } from '../core/SDKManager';
 
 // SDK Context
@@ -116,6 +126,127 @@ export const usePlugins = () => {
   return sdk.plugins;
 };
 
+// Hook to use a plugin's exported API
+export const usePluginAPI = <K extends string>(pluginName: K): PluginAPI<K> => {
+  const plugins = usePlugins();
+  return plugins.getAPI(pluginName);
+};
+
+// Hook to track a plugin's status, re-rendering on every transition
+export const usePluginStatus = (pluginName: string): PluginStatus | undefined => {
+  const plugins = usePlugins();
+  const [status, setStatus] = useState(plugins.getStatus(pluginName));
+
+  useEffect(() => {
+    setStatus(plugins.getStatus(pluginName));
+
+    return plugins.subscribeStatus(event => {
+      if (event.name === pluginName) {
+        setStatus(event.status);
+      }
+    });
+  }, [plugins, pluginName]);
+
+  return status;
+};
+
+// Hook to use a plugin's state slice, re-rendering only when that slice changes
+export const usePluginState = <S = any>(pluginName: string) => {
+  const sdk = useSDK();
+  const [slice, setSlice] = useState<S | undefined>(sdk.state.getSlice<S>(pluginName));
+
+  useEffect(() => {
+    setSlice(sdk.state.getSlice<S>(pluginName));
+
+    return sdk.state.subscribeSlice<S>(pluginName, newSlice => {
+      setSlice(newSlice);
+    });
+  }, [sdk, pluginName]);
+
+  const update = useCallback(
+    (value: Partial<S> | ((prev: S) => S)) => sdk.state.setSlice<S>(pluginName, value),
+    [sdk, pluginName]
+  );
+
+  return [slice, update] as const;
+};
+
+// Hook to use a plugin's settings, re-rendering when they change
+export const usePluginSettings = (pluginName: string) => {
+  const plugins = usePlugins();
+  const [settings, setSettings] = useState<PluginSettings>(plugins.getSettings(pluginName));
+
+  useEffect(() => {
+    setSettings(plugins.getSettings(pluginName));
+
+    return plugins.subscribeSettings(pluginName, newSettings => {
+      setSettings(newSettings);
+    });
+  }, [plugins, pluginName]);
+
+  const update = useCallback(
+    (values: PluginSettings) => plugins.updateSettings(pluginName, values),
+    [plugins, pluginName]
+  );
+
+  return [settings, update] as const;
+};
+
+// Hook to use a command, re-rendering when it is registered, removed or its availability changes
+export const useCommand = <R = any>(id: string) => {
+  const sdk = useSDK();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(() => {
+    // when 依赖状态，状态变化时也重新计算
+    const unsubscribeCommands = sdk.commands.subscribe(forceUpdate);
+    const unsubscribeState = sdk.state.subscribe(() => forceUpdate());
+
+    return () => {
+      unsubscribeCommands();
+      unsubscribeState();
+    };
+  }, [sdk]);
+
+  const execute = useCallback(
+    (args?: any) => sdk.commands.execute<R>(id, args),
+    [sdk, id]
+  );
+
+  const command: CommandInfo | undefined = sdk.commands.get(id);
+  return [command, execute] as const;
+};
+
+// Hook to list the routes of enabled plugins, for adapting them to the host router
+export const usePluginRoutes = (): RouteContribution[] => {
+  const plugins = usePlugins();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  // 任一插件状态变化时重新收集路由
+  useEffect(() => plugins.subscribeStatus(() => forceUpdate()), [plugins]);
+
+  return plugins.getRoutes();
+};
+
+// Hook to resolve the host router's current location to a plugin route, including its guards
+export const usePluginRoute = (location: string): PluginRouteResolution => {
+  const sdk = useSDK();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(() => {
+    // 守卫依赖状态，状态变化时也重新计算
+    const unsubscribeStatus = sdk.plugins.subscribeStatus(() => forceUpdate());
+    const unsubscribeState = sdk.state.subscribe(() => forceUpdate());
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeState();
+    };
+  }, [sdk]);
+
+  return sdk.plugins.resolveRoute(location);
+};
+
 // Hook to use SDK state
 export const useSDKState = <T = any>() => {
   const sdk = useSDK();
@@ -151,14 +282,22 @@ export const useSDKInfo = () => {
     // 监听状态变化更新信息
     const unsubscribe = sdk.state.subscribe(updateInfo);
 
-    // 监听生命周期变化更新信息
-    const unsubscribeMount = sdk.lifecycle.on('afterMount', updateInfo);
-    const unsubscribeUnmount = sdk.lifecycle.on('afterUnmount', updateInfo);
+    // 监听生命周期和插件变化更新信息
+    const hooks: LifecycleHook[] = [
+      'afterMount',
+      'afterUnmount',
+      'pluginRegistered',
+      'pluginEnabled',
+      'pluginDisabled',
+      'pluginUnregistered',
+      'pluginFailed',
+      'pluginQuarantined'
+    ];
+    const unsubscribeHooks = hooks.map(hook => sdk.lifecycle.on(hook, updateInfo));
 
     return () => {
       unsubscribe();
-      unsubscribeMount();
-      unsubscribeUnmount();
+      unsubscribeHooks.forEach(unsubscribeHook => unsubscribeHook());
     };
   }, [sdk]);
 
@@ -0,0 +1,154 @@
+import {
+  CommandManager as ICommandManager,
+  CommandHandler,
+  CommandInfo,
+  CommandManagerOptions,
+  CommandOptions,
+  PluginRuleInput,
+  SDKError
+} from '../types';
+import { evaluateEnabledWhen } from '../utils/rules';
+import { validateShortcut } from '../utils/shortcuts';
+
+interface RegisteredCommand {
+  id: string;
+  handler: CommandHandler;
+  options: CommandOptions;
+}
+
+export class CommandManager implements ICommandManager {
+  private commands: Map<string, RegisteredCommand> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private getRuleInput: () => PluginRuleInput;
+
+  constructor(options: CommandManagerOptions = {}) {
+    this.getRuleInput = options.getRuleInput ?? (() => ({ state: {}, env: {}, user: {} }));
+  }
+
+  // 注册命令，id 已存在时抛出 COMMAND_ALREADY_REGISTERED；返回注销函数
+  register(id: string, handler: CommandHandler, options: CommandOptions = {}): () => void {
+    if (!id || typeof handler !== 'function') {
+      throw new SDKError('Command requires an id and a handler function', 'INVALID_COMMAND', { id });
+    }
+
+    if (options.shortcut !== undefined) {
+      const error = validateShortcut(options.shortcut);
+      if (error) {
+        throw new SDKError(`Invalid command ${id}: ${error}`, 'INVALID_COMMAND', { id });
+      }
+    }
+
+    const existing = this.commands.get(id);
+    if (existing) {
+      throw new SDKError(
+        `Command ${id} is already registered${existing.options.plugin ? ` by plugin ${existing.options.plugin}` : ''}`,
+        'COMMAND_ALREADY_REGISTERED',
+        { id }
+      );
+    }
+
+    const command: RegisteredCommand = { id, handler, options: { ...options } };
+    this.commands.set(id, command);
+    this.notify();
+
+    return () => {
+      if (this.commands.get(id) === command) {
+        this.unregister(id);
+      }
+    };
+  }
+
+  unregister(id: string): void {
+    if (this.commands.delete(id)) {
+      this.notify();
+    }
+  }
+
+  // 执行命令，处理函数的错误包装为 COMMAND_FAILED
+  async execute<R = any>(id: string, args?: any): Promise<R> {
+    const command = this.commands.get(id);
+    if (!command) {
+      throw new SDKError(`Command ${id} is not registered`, 'COMMAND_NOT_FOUND', { id });
+    }
+
+    if (!this.isAvailable(command)) {
+      throw new SDKError(`Command ${id} is not available`, 'COMMAND_UNAVAILABLE', { id });
+    }
+
+    try {
+      return await command.handler(args);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SDKError(`Command ${id} failed: ${errorMessage}`, 'COMMAND_FAILED', error);
+    }
+  }
+
+  get(id: string): CommandInfo | undefined {
+    const command = this.commands.get(id);
+    return command ? this.toInfo(command) : undefined;
+  }
+
+  // 获取所有命令，按注册顺序
+  list(): CommandInfo[] {
+    return Array.from(this.commands.values()).map(command => this.toInfo(command));
+  }
+
+  // 移除插件注册的所有命令
+  removeByPlugin(plugin: string): void {
+    let removed = false;
+    this.commands.forEach((command, id) => {
+      if (command.options.plugin === plugin) {
+        this.commands.delete(id);
+        removed = true;
+      }
+    });
+
+    if (removed) {
+      this.notify();
+    }
+  }
+
+  // 订阅命令的注册和注销
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private toInfo(command: RegisteredCommand): CommandInfo {
+    const { title, description, shortcut, plugin } = command.options;
+    return {
+      id: command.id,
+      title: title ?? command.id,
+      description,
+      shortcut,
+      plugin,
+      available: this.isAvailable(command)
+    };
+  }
+
+  // 计算 when，出错时视为不可用
+  private isAvailable(command: RegisteredCommand): boolean {
+    const { when } = command.options;
+    if (!when) return true;
+
+    try {
+      return evaluateEnabledWhen(when, this.getRuleInput());
+    } catch (error) {
+      console.warn(`Failed to evaluate when of command ${command.id}:`, error);
+      return false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in command listener:', error);
+      }
+    });
+  }
+}
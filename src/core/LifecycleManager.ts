@@ -139,7 +139,13 @@ export class LifecycleManager implements ILifecycleManager {
       'beforeUnmount',
       'afterUnmount',
       'stateChange',
-      'error'
+      'error',
+      'pluginRegistered',
+      'pluginEnabled',
+      'pluginDisabled',
+      'pluginUnregistered',
+      'pluginFailed',
+      'pluginQuarantined'
     ];
 
     hookTypes.forEach(hook => {
@@ -1,10 +1,177 @@
-import { Plugin, PluginManager as IPluginManager, SDKError } from '../types';
+import {
+  DependencyGraphFormat,
+  DependencyKind,
+  DisableOptions,
+  EnableOptions,
+  ManifestFetcher,
+  PermissionOverrides,
+  Plugin,
+  PluginAPI,
+  PluginContext,
+  PluginDependencyEdge,
+  PluginDependencyGraph,
+  PluginExecutionPolicy,
+  PluginHealthPolicy,
+  PluginLogger,
+  PluginManager as IPluginManager,
+  PluginManagerOptions,
+  PluginImplementation,
+  PluginLifecycleEvent,
+  PluginLifecycleHook,
+  LifecycleHook,
+  PluginManifest,
+  PluginManifestBundle,
+  PluginModuleLoader,
+  PluginPermission,
+  PluginQuarantine,
+  PluginRuleContext,
+  PluginRuleInput,
+  PluginRuleLogEntry,
+  PluginRouteGuardInput,
+  PluginRouteResolution,
+  RouteContribution,
+  RouteMatch,
+  PluginSettings,
+  PluginSettingsListener,
+  PluginStatus,
+  PluginStatusListener,
+  PluginTiming,
+  RegisterAllOptions,
+  RegisterOptions,
+  SlotContribution,
+  StateManager as IStateManager,
+  StateListener,
+  LifecycleManager as ILifecycleManager,
+  CommandManager as ICommandManager,
+  SDKError
+} from '../types';
+import { StateManager } from './StateManager';
+import { LifecycleManager } from './LifecycleManager';
+import { CommandManager } from './CommandManager';
+import {
+  getAllDependencyNames,
+  getDefaultSettings,
+  getDependencyNames,
+  getOptionalDependencyNames,
+  groupPluginsByLevel,
+  normalizeDependencies,
+  pluginsConflict,
+  resolvePluginOrder,
+  validateManifest,
+  validateSettings
+} from '../utils/pluginHelpers';
+import { satisfies } from '../utils/semver';
+import {
+  assertPermission,
+  DEFAULT_PERMISSIONS,
+  hasPermission,
+  isValidPermission,
+  resolvePermissions,
+  RESTRICTED_PERMISSIONS
+} from '../utils/permissions';
+import { describeRule, evaluateEnabledWhen } from '../utils/rules';
+import { findRoute } from '../utils/routes';
+import { formatDependencyGraph } from '../utils/dependencyGraph';
+
+// 允许的状态转换
+const STATUS_TRANSITIONS: Record<PluginStatus, PluginStatus[]> = {
+  disabled: ['loading', 'initializing'],
+  loading: ['initializing', 'failed'],
+  initializing: ['enabled', 'failed'],
+  enabled: ['disabling'],
+  disabling: ['disabled', 'failed'],
+  failed: ['loading', 'initializing']
+};
+
+// 懒加载模块可以提供的实现字段；name、version、权限、启用条件和依赖关系以注册时的描述为准
+const IMPLEMENTATION_KEYS: Array<keyof PluginImplementation> = [
+  'description', 'author', 'icon', 'config', 'initialize', 'destroy', 'component', 'hooks', 'api',
+  'policy', 'onDependencyReplaced', 'initialState', 'stateCleanup', 'settings', 'slots', 'routes',
+  'healthCheck', 'health', 'stateMiddleware'
+];
+
+// 未配置 checkInterval 时健康检查的执行间隔（毫秒）
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+
+// 一次 evaluateRules 最多连续评估的轮数，防止规则与插件互相触发无限切换
+const MAX_RULE_PASSES = 10;
+// 保留的自动启用/禁用记录条数
+const MAX_RULE_LOG = 100;
 
 export class PluginManager implements IPluginManager {
   private plugins: Map<string, Plugin> = new Map();
-  private dependencyGraph: Map<string, Set<string>> = new Map();
+  // 被依赖插件 => (依赖它的插件 => 依赖类型)
+  private dependencyGraph: Map<string, Map<string, DependencyKind>> = new Map();
+  private apis: Map<string, any> = new Map();
+  private loads: Map<string, Promise<void>> = new Map();
+  // 进行中的启动（loading / initializing），并发的 enable、disable 等待它结束
+  private starts: Map<string, Promise<void>> = new Map();
+  private loadedPlugins: Set<string> = new Set();
+  private statuses: Map<string, PluginStatus> = new Map();
+  private statusListeners: Set<PluginStatusListener> = new Set();
+  // 已启用插件绑定到生命周期的 hooks 的取消订阅函数
+  private hookSubscriptions: Map<string, Array<() => void>> = new Map();
+  // 插件状态中间件的移除函数
+  private middlewareDisposers: Map<string, () => void> = new Map();
+  // 宿主配置的权限调整，以及注册时传入的调整（replace 时沿用）
+  private hostPermissions: Record<string, PermissionOverrides>;
+  private registerPermissions: Map<string, PermissionOverrides> = new Map();
+  // 来自清单或由其他插件注册的插件定义 => 权限上限（由插件注册时为注册方的权限，否则不设上限）
+  private untrusted: WeakMap<Plugin, PluginPermission[] | undefined> = new WeakMap();
+  private defaultPermissions: PluginPermission[];
+  private permissions: Map<string, PluginPermission[]> = new Map();
+  // 宿主提供的设置、用户修改的设置和二者合并后生效的设置
+  private hostSettings: Record<string, PluginSettings>;
+  private userSettings: Map<string, PluginSettings> = new Map();
+  private settings: Map<string, PluginSettings> = new Map();
+  private settingsListeners: Map<string, Set<PluginSettingsListener>> = new Map();
+  private settingsKey?: string;
+  private timings: Map<string, PluginTiming> = new Map();
+  private concurrency: number;
+  // 健康检查定时器、本次启用以来的运行时错误时间和被隔离的插件
+  private healthPolicy: PluginHealthPolicy;
+  private healthTimers: Map<string, ReturnType<typeof setInterval>> = new Map();
+  private runningHealthChecks: Set<string> = new Set();
+  private errorTimes: Map<string, number[]> = new Map();
+  private quarantined: Map<string, PluginQuarantine> = new Map();
+  // enabledWhen 规则的上下文、进行中的评估和自动启用/禁用记录
+  private ruleContext: PluginRuleContext;
+  private ruleEvaluation: Promise<void> | null = null;
+  private rulesDirty: boolean = false;
+  private ruleLog: PluginRuleLogEntry[] = [];
+  private state: IStateManager;
+  private lifecycle: ILifecycleManager;
+  private commands: ICommandManager;
+  private isDebug: boolean;
+  private sdkVersion?: string;
+  private executionPolicy: PluginExecutionPolicy;
+  private manifestFetcher: ManifestFetcher;
+  private moduleLoader: PluginModuleLoader;
+
+  constructor(options: PluginManagerOptions = {}) {
+    this.isDebug = options.debug ?? false;
+    this.sdkVersion = options.sdkVersion;
+    this.executionPolicy = options.executionPolicy ?? {};
+    this.manifestFetcher = options.manifestFetcher ?? defaultManifestFetcher;
+    this.moduleLoader = options.moduleLoader ?? defaultModuleLoader;
+    this.hostPermissions = options.permissions ?? {};
+    this.defaultPermissions = options.defaultPermissions ?? DEFAULT_PERMISSIONS;
+    this.hostSettings = options.settings ?? {};
+    this.settingsKey = options.settingsKey;
+    this.concurrency = options.concurrency ?? Infinity;
+    this.healthPolicy = options.health ?? {};
+    this.ruleContext = { env: {}, user: {}, ...options.ruleContext };
+    // 独立使用时创建私有的状态与生命周期管理器
+    this.state = options.state ?? new StateManager({ initialState: {} });
+    this.lifecycle = options.lifecycle ?? new LifecycleManager(this.isDebug);
+    this.commands = options.commands ?? new CommandManager({ getRuleInput: () => this.getRuleInput() });
+  }
+
+  async register(plugin: Plugin, options: RegisterOptions = {}): Promise<void> {
+    const definition = plugin;
+    let step = 'validating';
+    let stored = false;
 
-  async register(plugin: Plugin): Promise<void> {
     try {
       // 检查插件是否已存在
       if (this.plugins.has(plugin.name)) {
@@ -17,28 +184,139 @@ export class PluginManager implements IPluginManager {
       // 检查依赖关系
       await this.validateDependencies(plugin);
 
-      // 注册插件
-      this.plugins.set(plugin.name, { ...plugin });
+      // 声明了 enabledWhen 的插件由规则决定注册时是否启用，依赖未全部启用时先以禁用状态注册
+      if (plugin.enabledWhen) {
+        plugin = { ...plugin, enabled: this.checkEnabledWhen(plugin) === true && this.dependenciesEnabled(plugin) };
+      }
+
+      // 检查与已启用插件的冲突
+      if (plugin.enabled) {
+        this.validateConflicts(plugin);
+      }
+
+      // 计算宿主调整后的权限
+      const permissions = this.resolvePluginPermissions(definition, options.permissions);
+
+      // 校验宿主提供的设置
+      const settings = plugin.settings ? this.resolveSettings(plugin) : undefined;
+
+      // 注册插件，启用状态由 start 在初始化成功后设置
+      step = 'registering';
+      this.plugins.set(plugin.name, { ...plugin, enabled: false });
+      this.statuses.set(plugin.name, 'disabled');
+      this.permissions.set(plugin.name, permissions);
+      if (settings) {
+        this.settings.set(plugin.name, settings);
+      }
+      if (options.permissions) {
+        this.registerPermissions.set(plugin.name, options.permissions);
+      }
+      stored = true;
       
       // 更新依赖图
       this.updateDependencyGraph(plugin);
+      this.emitPluginEvent('pluginRegistered', plugin);
 
       // 如果插件启用，则初始化
-      if (plugin.enabled && plugin.initialize) {
-        await plugin.initialize();
+      if (plugin.enabled) {
+        step = 'initializing';
+        await this.start(this.plugins.get(plugin.name)!);
+
+        if (plugin.enabledWhen) {
+          this.logRuleToggle(plugin.name, 'enable', `enabledWhen matched: ${describeRule(plugin.enabledWhen)}`);
+        }
       }
 
       console.log(`Plugin ${plugin.name} registered successfully`);
     } catch (error) {
+      // 回滚已写入的插件和依赖图
+      if (stored) {
+        this.removePlugin(plugin.name);
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new SDKError(
-        `Failed to register plugin ${plugin.name}: ${errorMessage}`,
+        `Failed to register plugin ${plugin.name} while ${step}: ${errorMessage}`,
         'PLUGIN_REGISTRATION_FAILED',
         error
       );
     }
   }
 
+  // 批量注册：先解析完整的依赖图，再按依赖层级注册，同一层级内并行初始化；
+  // 任一插件失败时按逆序回滚本批次已注册的插件
+  async registerAll(plugins: Plugin[], options: RegisterAllOptions = {}): Promise<void> {
+    const { order, missing, cycles, duplicates } = resolvePluginOrder(plugins, Array.from(this.plugins.keys()));
+
+    if (duplicates.length > 0 || missing.length > 0 || cycles.length > 0) {
+      const problems = [
+        ...duplicates.map(name => (
+          this.plugins.has(name) ? `plugin ${name} is already registered` : `plugin ${name} is listed more than once`
+        )),
+        ...missing.map(({ plugin, dependency }) => `${plugin} depends on missing plugin ${dependency}`),
+        ...cycles.map(cycle => `circular dependency ${cycle.join(' -> ')}`)
+      ];
+
+      throw new SDKError(
+        `Failed to resolve plugin dependencies: ${problems.join('; ')}`,
+        'DEPENDENCY_RESOLUTION_FAILED',
+        { duplicates, missing, cycles }
+      );
+    }
+
+    const levels = groupPluginsByLevel(order);
+    const concurrency = options.concurrency ?? this.concurrency;
+    const registered: string[] = [];
+
+    for (let level = 0; level < levels.length; level++) {
+      const failure = await this.registerLevel(levels[level], level, concurrency, registered);
+      if (!failure) continue;
+
+      await this.rollback(registered);
+
+      const errorMessage = failure.error instanceof Error ? failure.error.message : String(failure.error);
+      const rolledBack = registered.length > 0 ? ` (rolled back: ${registered.join(', ')})` : '';
+      throw new SDKError(
+        `Batch registration stopped at plugin ${failure.plugin.name}${rolledBack}: ${errorMessage}`,
+        'BATCH_REGISTRATION_FAILED',
+        failure.error
+      );
+    }
+  }
+
+  // 以限定的并发数注册同一层级的插件；出现失败后不再开始新的注册，等待进行中的注册结束
+  private async registerLevel(
+    plugins: Plugin[],
+    level: number,
+    concurrency: number,
+    registered: string[]
+  ): Promise<{ plugin: Plugin; error: unknown } | null> {
+    let failure: { plugin: Plugin; error: unknown } | null = null;
+    let next = 0;
+
+    const worker = async () => {
+      while (!failure && next < plugins.length) {
+        const plugin = plugins[next++];
+        try {
+          await this.register(plugin);
+          registered.push(plugin.name);
+
+          const timing = this.timings.get(plugin.name);
+          if (timing) {
+            timing.level = level;
+          }
+        } catch (error) {
+          failure = failure || { plugin, error };
+        }
+      }
+    };
+
+    const workers = Math.min(concurrency >= 1 ? Math.floor(concurrency) : 1, plugins.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return failure;
+  }
+
   async unregister(name: string): Promise<void> {
     const plugin = this.plugins.get(name);
     if (!plugin) {
@@ -49,8 +327,8 @@ export class PluginManager implements IPluginManager {
     }
 
     try {
-      // 检查是否有其他插件依赖此插件
-      const dependents = this.getDependents(name);
+      // 检查是否有其他插件依赖此插件（可选依赖不阻止注销）
+      const dependents = this.getDependents(name, 'required');
       if (dependents.length > 0) {
         throw new SDKError(
           `Cannot unregister plugin ${name} because it is required by: ${dependents.join(', ')}`,
@@ -59,13 +337,12 @@ export class PluginManager implements IPluginManager {
       }
 
       // 销毁插件
-      if (plugin.enabled && plugin.destroy) {
-        await plugin.destroy();
+      if (plugin.enabled) {
+        await this.stop(plugin);
       }
 
-      // 移除插件
-      this.plugins.delete(name);
-      this.dependencyGraph.delete(name);
+      // 移除插件，同时移除它在所依赖插件中的依赖方记录
+      this.removePlugin(name);
 
       console.log(`Plugin ${name} unregistered successfully`);
     } catch (error) {
@@ -78,7 +355,8 @@ export class PluginManager implements IPluginManager {
     }
   }
 
-  async enable(name: string): Promise<void> {
+  // 启用插件，返回本次启用的插件名称（withDependencies 时依赖在前）
+  async enable(name: string, options: EnableOptions = {}): Promise<string[]> {
     const plugin = this.plugins.get(name);
     if (!plugin) {
       throw new SDKError(
@@ -88,43 +366,79 @@ export class PluginManager implements IPluginManager {
     }
 
     if (plugin.enabled) {
-      return; // 已经启用
+      return []; // 已经启用
+    }
+
+    // 正在启动时共享同一次启动
+    const starting = this.starts.get(name);
+    if (starting) {
+      try {
+        await starting;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new SDKError(
+          `Failed to enable plugin ${name}: ${errorMessage}`,
+          'PLUGIN_ENABLE_FAILED',
+          error
+        );
+      }
+      return [];
     }
 
+    const touched: string[] = [];
+
     try {
-      // 检查依赖是否都已启用
-      if (plugin.dependencies) {
-        for (const dep of plugin.dependencies) {
-          const depPlugin = this.plugins.get(dep);
-          if (!depPlugin || !depPlugin.enabled) {
-            throw new SDKError(
-              `Dependency ${dep} is not enabled`,
-              'DEPENDENCY_NOT_ENABLED'
-            );
-          }
+      // 自底向上启用整个依赖链
+      if (options.withDependencies) {
+        for (const dep of this.collectDependencies(name)) {
+          touched.push(...await this.enable(dep));
         }
       }
 
-      // 初始化插件
-      if (plugin.initialize) {
-        await plugin.initialize();
+      // 检查依赖是否都已启用
+      for (const dep of getDependencyNames(plugin)) {
+        const depPlugin = this.plugins.get(dep);
+        if (!depPlugin || !depPlugin.enabled) {
+          throw new SDKError(
+            `Dependency ${dep} is not enabled`,
+            'DEPENDENCY_NOT_ENABLED'
+          );
+        }
       }
 
-      // 标记为启用
-      plugin.enabled = true;
+      // 检查冲突
+      this.validateConflicts(plugin);
+
+      // 初始化插件
+      await this.start(plugin);
 
       console.log(`Plugin ${name} enabled successfully`);
+      touched.push(name);
+      return touched;
     } catch (error) {
+      // 回滚本次级联启用的依赖
+      for (const dep of touched.slice().reverse()) {
+        await this.forceDeactivate(dep);
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const rolledBack = touched.length > 0 ? ` (rolled back: ${touched.join(', ')})` : '';
       throw new SDKError(
-        `Failed to enable plugin ${name}: ${errorMessage}`,
+        `Failed to enable plugin ${name}${rolledBack}: ${errorMessage}`,
         'PLUGIN_ENABLE_FAILED',
         error
       );
     }
   }
 
-  async disable(name: string): Promise<void> {
+  // 禁用插件，返回本次禁用的插件名称（cascade 时依赖方在前）
+  async disable(name: string, options: DisableOptions = {}): Promise<string[]> {
+    // 正在启动时等待启动结束再禁用；启动失败时插件已处于 failed，无需禁用
+    const starting = this.starts.get(name);
+    if (starting) {
+      await starting.catch(() => undefined);
+    }
+
     const plugin = this.plugins.get(name);
     if (!plugin) {
       throw new SDKError(
@@ -133,13 +447,23 @@ export class PluginManager implements IPluginManager {
       );
     }
 
-    if (!plugin.enabled) {
-      return; // 已经禁用
+    const status = this.statuses.get(name);
+    if (status === 'disabled' || status === 'failed') {
+      return []; // 已经禁用
+    }
+
+    const touched: string[] = [];
+
+    // 自顶向下先禁用所有启用的依赖方
+    if (options.cascade) {
+      for (const dependent of this.collectDependents(name)) {
+        touched.push(...await this.disable(dependent));
+      }
     }
 
     try {
-      // 检查是否有启用的插件依赖此插件
-      const enabledDependents = this.getDependents(name).filter(dep => {
+      // 检查是否有启用的插件依赖此插件（可选依赖方不受影响）
+      const enabledDependents = this.getDependents(name, 'required').filter(dep => {
         const depPlugin = this.plugins.get(dep);
         return depPlugin && depPlugin.enabled;
       });
@@ -152,14 +476,11 @@ export class PluginManager implements IPluginManager {
       }
 
       // 销毁插件
-      if (plugin.destroy) {
-        await plugin.destroy();
-      }
-
-      // 标记为禁用
-      plugin.enabled = false;
+      await this.stop(plugin);
 
       console.log(`Plugin ${name} disabled successfully`);
+      touched.push(name);
+      return touched;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new SDKError(
@@ -170,6 +491,83 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  // 热替换插件：销毁旧实例并初始化新版本，依赖方保持注册并收到通知；
+  // 新版本初始化失败时恢复旧实例
+  async replace(plugin: Plugin): Promise<void> {
+    const previous = this.plugins.get(plugin.name);
+    if (!previous) {
+      throw new SDKError(
+        `Plugin ${plugin.name} not found`,
+        'PLUGIN_NOT_FOUND'
+      );
+    }
+
+    const wasEnabled = previous.enabled;
+    const wasLoaded = this.loadedPlugins.has(plugin.name);
+    const next: Plugin = { ...plugin, enabled: false };
+
+    let permissions: PluginPermission[];
+    let nextSettings: PluginSettings | undefined;
+
+    try {
+      await this.validateDependencies(next);
+      this.validateDependentRanges(next);
+      permissions = this.resolvePluginPermissions(plugin, this.registerPermissions.get(plugin.name));
+      nextSettings = next.settings ? this.resolveSettings(next) : undefined;
+
+      if (wasEnabled) {
+        this.validateConflicts(next);
+        await this.stop(previous);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SDKError(
+        `Failed to replace plugin ${plugin.name}: ${errorMessage}`,
+        'PLUGIN_REPLACE_FAILED',
+        error
+      );
+    }
+
+    const previousPermissions = this.getPermissions(plugin.name);
+    const previousSettings = this.settings.get(plugin.name);
+    this.swapPlugin(next);
+    this.permissions.set(plugin.name, permissions);
+    this.setEffectiveSettings(plugin.name, nextSettings);
+
+    if (wasEnabled) {
+      try {
+        await this.start(next);
+      } catch (error) {
+        // 恢复旧实例
+        this.swapPlugin(previous);
+        this.permissions.set(previous.name, previousPermissions);
+        this.setEffectiveSettings(previous.name, previousSettings);
+        if (wasLoaded) {
+          this.loadedPlugins.add(previous.name);
+        }
+
+        try {
+          await this.start(previous);
+        } catch (restoreError) {
+          console.error(`Failed to restore plugin ${previous.name} after a failed replace:`, restoreError);
+        }
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new SDKError(
+          `Failed to replace plugin ${plugin.name}: ${errorMessage}`,
+          'PLUGIN_REPLACE_FAILED',
+          error
+        );
+      }
+    }
+
+    if (this.isDebug) {
+      console.log(`Plugin ${plugin.name} replaced: v${previous.version} -> v${next.version}`);
+    }
+
+    await this.notifyDependents(next, previous);
+  }
+
   get(name: string): Plugin | undefined {
     return this.plugins.get(name);
   }
@@ -182,63 +580,1685 @@ export class PluginManager implements IPluginManager {
     return Array.from(this.plugins.values()).filter(plugin => plugin.enabled);
   }
 
-  private async validateDependencies(plugin: Plugin): Promise<void> {
-    if (!plugin.dependencies) return;
+  // 获取插件当前状态，未注册时返回 undefined
+  getStatus(name: string): PluginStatus | undefined {
+    return this.statuses.get(name);
+  }
 
-    for (const dep of plugin.dependencies) {
-      const depPlugin = this.plugins.get(dep);
-      if (!depPlugin) {
-        throw new SDKError(
-          `Dependency ${dep} not found`,
-          'DEPENDENCY_NOT_FOUND'
-        );
+  // 获取插件当前生效的设置：默认值 < 宿主配置 < 用户修改
+  getSettings(name: string): PluginSettings {
+    return { ...this.settings.get(name) };
+  }
+
+  // 保存用户修改的设置，校验失败时抛出 INVALID_PLUGIN_SETTINGS
+  updateSettings(name: string, values: PluginSettings): void {
+    const plugin = this.requireSettingsSchema(name);
+    const userValues = { ...this.userSettings.get(name), ...values };
+    const settings = this.mergeSettings(plugin, userValues);
+
+    this.assertValidSettings(plugin, settings);
+    this.userSettings.set(name, userValues);
+    this.persistUserSettings(name, userValues);
+    this.setEffectiveSettings(name, settings);
+  }
+
+  // 清除用户修改，恢复为默认值和宿主配置
+  resetSettings(name: string): void {
+    const plugin = this.requireSettingsSchema(name);
+
+    this.userSettings.set(name, {});
+    this.persistUserSettings(name, undefined);
+    this.setEffectiveSettings(name, this.mergeSettings(plugin, {}));
+  }
+
+  // 订阅单个插件的设置变化，返回取消订阅函数
+  subscribeSettings(name: string, listener: PluginSettingsListener): () => void {
+    if (!this.settingsListeners.has(name)) {
+      this.settingsListeners.set(name, new Set());
+    }
+    this.settingsListeners.get(name)!.add(listener);
+
+    return () => {
+      const listeners = this.settingsListeners.get(name);
+      if (listeners) {
+        listeners.delete(listener);
+      }
+    };
+  }
+
+  // 获取插件最近一次启动的耗时，未启动过时返回 undefined
+  getTiming(name: string): PluginTiming | undefined {
+    const timing = this.timings.get(name);
+    return timing ? { ...timing } : undefined;
+  }
+
+  // 上报插件的运行时错误（组件渲染、hooks、健康检查）：先交给插件的 onError，再计数，
+  // 达到 errorThreshold 时隔离插件
+  recordError(name: string, error: unknown): void {
+    const plugin = this.plugins.get(name);
+    if (!plugin) return;
+
+    this.reportError(plugin, error);
+    this.emitPluginEvent('pluginError', plugin, error);
+    if (this.statuses.get(name) !== 'enabled' || this.quarantined.has(name)) return;
+
+    const { errorThreshold } = this.getHealthPolicy(plugin);
+    const errors = this.getRecentErrors(plugin);
+    errors.push(Date.now());
+    this.errorTimes.set(name, errors);
+
+    if (errorThreshold !== undefined && errors.length >= errorThreshold) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.quarantine(plugin, `${errors.length} errors reached the threshold of ${errorThreshold}: ${errorMessage}`, error);
+    }
+  }
+
+  // 获取插件本次启用以来（设置 errorWindow 时为窗口内）的运行时错误次数
+  getErrorCount(name: string): number {
+    const plugin = this.plugins.get(name);
+    return plugin ? this.getRecentErrors(plugin).length : 0;
+  }
+
+  // 立即执行插件的健康检查，失败时按运行时错误计数；插件未启用或未声明 healthCheck 时返回 true
+  async checkHealth(name: string): Promise<boolean> {
+    const plugin = this.plugins.get(name);
+    if (!plugin || !plugin.healthCheck || this.statuses.get(name) !== 'enabled') {
+      return true;
+    }
+
+    let failure: SDKError | null = null;
+    try {
+      const healthy = await plugin.healthCheck(this.createContext(plugin));
+      if (healthy === false) {
+        failure = new SDKError(`Health check of plugin ${name} failed`, 'PLUGIN_UNHEALTHY');
       }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      failure = new SDKError(`Health check of plugin ${name} failed: ${errorMessage}`, 'PLUGIN_UNHEALTHY', error);
     }
 
-    // 检查循环依赖
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
+    if (!failure) return true;
 
-    const hasCycle = (pluginName: string): boolean => {
-      visited.add(pluginName);
-      recursionStack.add(pluginName);
+    // 只计入插件并通过 pluginError 发出，不触发SDK的 error 钩子
+    this.recordError(name, failure);
+    return false;
+  }
 
-      const pluginDeps = pluginName === plugin.name 
-        ? plugin.dependencies || []
-        : this.plugins.get(pluginName)?.dependencies || [];
+  // 获取被隔离的插件及隔离原因
+  getQuarantined(): PluginQuarantine[] {
+    return Array.from(this.quarantined.values()).map(record => ({ ...record, disabled: record.disabled.slice() }));
+  }
 
-      for (const dep of pluginDeps) {
-        if (!visited.has(dep)) {
-          if (hasCycle(dep)) return true;
-        } else if (recursionStack.has(dep)) {
-          return true;
-        }
+  // 按当前状态和规则上下文重新计算 enabledWhen，自动禁用（依赖方优先）和启用（依赖优先）插件；
+  // 评估进行中再次调用时合并为本轮结束后的下一轮
+  evaluateRules(): Promise<void> {
+    if (this.ruleEvaluation) {
+      this.rulesDirty = true;
+      return this.ruleEvaluation;
+    }
+
+    const run = async () => {
+      let passes = 0;
+      do {
+        this.rulesDirty = false;
+        await this.applyRules();
+        passes++;
+      } while (this.rulesDirty && passes < MAX_RULE_PASSES);
+
+      if (this.rulesDirty) {
+        console.warn(`Stopped evaluating enabledWhen rules after ${MAX_RULE_PASSES} passes; plugins keep toggling each other`);
       }
+    };
 
-      recursionStack.delete(pluginName);
-      return false;
+    const done = () => {
+      this.ruleEvaluation = null;
     };
+    this.ruleEvaluation = run().then(done, error => {
+      done();
+      throw error;
+    });
 
-    if (hasCycle(plugin.name)) {
+    return this.ruleEvaluation;
+  }
+
+  // 更新规则上下文（浅合并 env，传入 user 时整体替换）并重新计算规则
+  setRuleContext(context: Partial<PluginRuleContext>): Promise<void> {
+    this.ruleContext = {
+      env: { ...this.ruleContext.env, ...context.env },
+      user: context.user ? { ...context.user } : this.ruleContext.user
+    };
+    return this.evaluateRules();
+  }
+
+  getRuleContext(): PluginRuleContext {
+    return { env: { ...this.ruleContext.env }, user: { ...this.ruleContext.user } };
+  }
+
+  // 获取规则自动启用或禁用插件的记录，最早的在前
+  getRuleLog(): PluginRuleLogEntry[] {
+    return this.ruleLog.slice();
+  }
+
+  // 获取启用插件向指定插槽提供的内容，按 order 升序，相同时按插件注册顺序
+  getSlotContributions(slot: string): SlotContribution[] {
+    const contributions: SlotContribution[] = [];
+
+    this.getEnabled().forEach(plugin => {
+      (plugin.slots || []).forEach((contribution, index) => {
+        if (contribution.slot !== slot) return;
+
+        contributions.push({
+          key: `${plugin.name}:${index}`,
+          pluginName: plugin.name,
+          slot,
+          component: contribution.component,
+          order: contribution.order ?? 0,
+          props: contribution.props || {}
+        });
+      });
+    });
+
+    // 排序时以收集顺序作为次序依据，保证结果稳定
+    return contributions
+      .map((contribution, index) => ({ contribution, index }))
+      .sort((a, b) => a.contribution.order - b.contribution.order || a.index - b.index)
+      .map(({ contribution }) => contribution);
+  }
+
+  // 获取启用插件提供的页面路由，按插件注册顺序和声明顺序；插件开始禁用时即不再返回
+  getRoutes(): RouteContribution[] {
+    const routes: RouteContribution[] = [];
+
+    this.getAll().forEach(plugin => {
+      if (this.statuses.get(plugin.name) !== 'enabled') return;
+
+      (plugin.routes || []).forEach((route, index) => {
+        routes.push({
+          key: `${plugin.name}:route:${index}`,
+          pluginName: plugin.name,
+          path: route.path,
+          component: route.component,
+          title: route.title,
+          guards: route.guards || []
+        });
+      });
+    });
+
+    return routes;
+  }
+
+  // 查找与路径匹配且最具体的路由，不检查守卫
+  matchRoute(location: string): RouteMatch | undefined {
+    return findRoute(this.getRoutes(), location);
+  }
+
+  // 匹配路由并依次执行守卫；守卫抛错时计入插件错误并拒绝访问
+  resolveRoute(location: string): PluginRouteResolution {
+    const match = this.matchRoute(location);
+    if (!match) {
+      return { status: 'notFound' };
+    }
+
+    const { route, params } = match;
+    const input: PluginRouteGuardInput = { ...this.getRuleInput(), pluginName: route.pluginName, location, params };
+
+    for (const guard of route.guards) {
+      let result: boolean | string;
+      try {
+        result = guard(input);
+      } catch (error) {
+        console.error(`Error in route guard of plugin ${route.pluginName} for ${route.path}:`, error);
+        this.recordError(route.pluginName, error);
+        return { status: 'forbidden', route, params };
+      }
+
+      if (typeof result === 'string') {
+        return { status: 'redirect', route, params, redirectTo: result };
+      }
+      if (result !== true) {
+        return { status: 'forbidden', route, params };
+      }
+    }
+
+    return { status: 'matched', route, params };
+  }
+
+  // 获取完整依赖图：节点按注册顺序，边从依赖方指向被依赖插件
+  getDependencyGraph(): PluginDependencyGraph {
+    const plugins = this.getAll();
+    const edges: PluginDependencyEdge[] = [];
+
+    plugins.forEach(plugin => {
+      const dependents = this.dependencyGraph.get(plugin.name);
+      if (!dependents) return;
+
+      dependents.forEach((kind, dependentName) => {
+        const dependent = this.plugins.get(dependentName);
+        if (!dependent) return;
+
+        edges.push({
+          from: dependentName,
+          to: plugin.name,
+          kind,
+          enabled: !!(plugin.enabled && dependent.enabled)
+        });
+      });
+    });
+
+    return {
+      nodes: plugins.map(plugin => ({
+        name: plugin.name,
+        version: plugin.version,
+        status: this.statuses.get(plugin.name) ?? 'disabled',
+        enabled: !!plugin.enabled
+      })),
+      edges
+    };
+  }
+
+  // 导出依赖图为 JSON、Graphviz DOT 或 Mermaid
+  exportDependencyGraph(format: DependencyGraphFormat = 'json'): string {
+    return formatDependencyGraph(this.getDependencyGraph(), format);
+  }
+
+  // 传递性的必需依赖，按初始化顺序（最底层在前），不含插件自身
+  getTransitiveDependencies(name: string): string[] {
+    return this.collectDependencies(name);
+  }
+
+  // 传递性的必需依赖方，按禁用顺序（最上层在前），不含插件自身
+  getTransitiveDependents(name: string): string[] {
+    return this.collectDependents(name);
+  }
+
+  // 级联禁用插件时实际会禁用的插件，按禁用顺序（依赖方在前），不执行禁用
+  getDisableOrder(name: string): string[] {
+    if (!this.plugins.has(name)) {
       throw new SDKError(
-        `Circular dependency detected for plugin ${plugin.name}`,
-        'CIRCULAR_DEPENDENCY'
+        `Plugin ${name} not found`,
+        'PLUGIN_NOT_FOUND'
       );
     }
+
+    return this.collectDependents(name).concat(name).filter(pluginName => {
+      const status = this.statuses.get(pluginName);
+      return status !== 'disabled' && status !== 'failed';
+    });
   }
 
-  private updateDependencyGraph(plugin: Plugin): void {
-    if (!plugin.dependencies) return;
+  // 获取插件的有效权限，未注册时返回空数组
+  getPermissions(name: string): PluginPermission[] {
+    return (this.permissions.get(name) || []).slice();
+  }
+
+  // 订阅插件状态变化，返回取消订阅函数
+  subscribeStatus(listener: PluginStatusListener): () => void {
+    this.statusListeners.add(listener);
+
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // 加载懒加载插件的实现，并发调用共享同一次加载
+  async load(name: string): Promise<void> {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      throw new SDKError(
+        `Plugin ${name} not found`,
+        'PLUGIN_NOT_FOUND'
+      );
+    }
+
+    if (this.isLoaded(name)) {
+      return;
+    }
+
+    if (!this.loads.has(name)) {
+      const loading = this.loadImplementation(plugin).finally(() => {
+        this.loads.delete(name);
+      });
+      this.loads.set(name, loading);
+    }
+
+    return this.loads.get(name);
+  }
+
+  // 检查插件实现是否可用（非懒加载插件始终视为已加载）
+  isLoaded(name: string): boolean {
+    const plugin = this.plugins.get(name);
+    return !!plugin && (!plugin.load || this.loadedPlugins.has(name));
+  }
+
+  // 加载插件清单：校验后将描述的插件注册为懒加载插件
+  async loadManifest(source: string | PluginManifest | PluginManifestBundle): Promise<Plugin[]> {
+    return this.loadManifestAs(source);
+  }
+
+  // ceiling 为清单插件的权限上限，插件通过上下文加载清单时为它自己的权限
+  private async loadManifestAs(
+    source: string | PluginManifest | PluginManifestBundle,
+    ceiling?: PluginPermission[]
+  ): Promise<Plugin[]> {
+    const manifestUrl = typeof source === 'string' ? source : undefined;
+    let manifest: unknown = source;
 
-    for (const dep of plugin.dependencies) {
-      if (!this.dependencyGraph.has(dep)) {
-        this.dependencyGraph.set(dep, new Set());
+    if (manifestUrl) {
+      try {
+        manifest = await this.manifestFetcher(manifestUrl);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new SDKError(
+          `Failed to fetch plugin manifest ${manifestUrl}: ${errorMessage}`,
+          'MANIFEST_FETCH_FAILED',
+          error
+        );
       }
-      this.dependencyGraph.get(dep)!.add(plugin.name);
     }
+
+    const errors = validateManifest(manifest);
+    if (errors.length > 0) {
+      throw new SDKError(
+        `Invalid plugin manifest: ${errors.join('; ')}`,
+        'INVALID_MANIFEST',
+        { errors }
+      );
+    }
+
+    const entries = 'plugins' in (manifest as object)
+      ? (manifest as PluginManifestBundle).plugins
+      : [manifest as PluginManifest];
+
+    await this.registerAll(entries.map(entry => {
+      const plugin = this.createManifestPlugin(entry, manifestUrl);
+      this.untrusted.set(plugin, ceiling);
+      return plugin;
+    }));
+
+    return entries.map(entry => this.plugins.get(entry.name)!);
   }
 
-  private getDependents(pluginName: string): string[] {
-    return Array.from(this.dependencyGraph.get(pluginName) || []);
+  // 获取插件导出的API
+  getAPI<K extends string>(name: K): PluginAPI<K> {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      throw new SDKError(
+        `Cannot get API of plugin ${name}: plugin is not registered`,
+        'PLUGIN_NOT_FOUND'
+      );
+    }
+
+    if (!plugin.enabled) {
+      throw new SDKError(
+        `Cannot get API of plugin ${name}: plugin is disabled`,
+        'PLUGIN_NOT_ENABLED'
+      );
+    }
+
+    if (!this.apis.has(name)) {
+      throw new SDKError(
+        `Plugin ${name} does not export an API`,
+        'PLUGIN_API_NOT_FOUND'
+      );
+    }
+
+    return this.apis.get(name);
+  }
+
+  // 创建插件上下文，仅暴露插件自身的配置和已解析的依赖
+  createContext(plugin: Plugin): PluginContext {
+    const dependencies: Record<string, Plugin> = {};
+    for (const dep of getDependencyNames(plugin)) {
+      const depPlugin = this.plugins.get(dep);
+      if (depPlugin) {
+        dependencies[dep] = depPlugin;
+      }
+    }
+
+    // 可选依赖仅在已启用时注入
+    for (const dep of getOptionalDependencyNames(plugin)) {
+      const depPlugin = this.plugins.get(dep);
+      if (depPlugin && depPlugin.enabled) {
+        dependencies[dep] = depPlugin;
+      }
+    }
+
+    return {
+      name: plugin.name,
+      config: plugin.config || {},
+      state: this.createScopedState(plugin.name),
+      lifecycle: this.createScopedLifecycle(plugin.name),
+      plugins: this.createScopedPlugins(plugin.name),
+      commands: this.createScopedCommands(plugin),
+      permissions: this.getPermissions(plugin.name),
+      dependencies,
+      logger: this.createLogger(plugin.name),
+      getAPI: name => this.getAPI(name),
+      getState: <S>() => this.state.getSlice<S>(plugin.name) as S,
+      setState: update => this.state.setSlice(plugin.name, update),
+      getSettings: () => this.getSettings(plugin.name)
+    };
+  }
+
+  // 插件上下文中的状态管理器：自己的切片不受限制，其余按 state:* 权限检查
+  private createScopedState(pluginName: string): IStateManager {
+    const state = this.state;
+    const check = (permission: PluginPermission, action: string) => {
+      assertPermission(pluginName, this.getPermissions(pluginName), permission, action);
+    };
+    const checkSlice = (namespace: string, permission: PluginPermission, action: string) => {
+      if (namespace !== pluginName) {
+        check(permission, `${action} state slice ${namespace}`);
+      }
+    };
+
+    return {
+      getState: () => {
+        check('state:read', 'read state');
+        return state.getState();
+      },
+      setState: update => {
+        const prev = state.getState();
+        const next = typeof update === 'function' ? update(prev) : { ...prev, ...update };
+        const keys = typeof update === 'function' ? getChangedKeys(prev, next) : Object.keys(update);
+        keys.forEach(key => check(`state:write:${key}`, `write state key "${key}"`));
+        state.setState(() => next);
+      },
+      subscribe: listener => {
+        check('state:read', 'subscribe to state');
+        return state.subscribe(listener);
+      },
+      reset: () => {
+        check('state:write', 'reset state');
+        state.reset();
+      },
+      getListenerCount: () => state.getListenerCount(),
+      clearListeners: () => {
+        check('state:write', 'clear state listeners');
+        state.clearListeners();
+      },
+      createSlice: <S>(namespace: string, initialState: S) => {
+        checkSlice(namespace, 'state:write', 'create');
+        return state.createSlice<S>(namespace, initialState);
+      },
+      getSlice: <S>(namespace: string) => {
+        checkSlice(namespace, 'state:read', 'read');
+        return state.getSlice<S>(namespace);
+      },
+      hasSlice: namespace => state.hasSlice(namespace),
+      setSlice: <S>(namespace: string, update: Partial<S> | ((prev: S) => S)) => {
+        checkSlice(namespace, 'state:write', 'write');
+        state.setSlice<S>(namespace, update);
+      },
+      subscribeSlice: <S>(namespace: string, listener: StateListener<S | undefined>) => {
+        checkSlice(namespace, 'state:read', 'subscribe to');
+        return state.subscribeSlice<S>(namespace, listener);
+      },
+      removeSlice: (namespace, options) => {
+        checkSlice(namespace, 'state:write', 'remove');
+        state.removeSlice(namespace, options);
+      },
+      use: (name, middleware) => {
+        check('state:write', 'install state middleware');
+        return state.use(name, middleware);
+      },
+      removeMiddleware: name => {
+        check('state:write', 'remove state middleware');
+        state.removeMiddleware(name);
+      },
+      getMiddleware: () => state.getMiddleware(),
+      setMiddlewareOrder: order => {
+        check('state:write', 'change the state middleware order');
+        state.setMiddlewareOrder(order);
+      }
+    };
+  }
+
+  // 插件上下文中的命令管理器：注册的命令归插件所有，处理函数的错误计入插件；
+  // 注销其他插件或宿主的命令需要 plugins:manage
+  private createScopedCommands(plugin: Plugin): ICommandManager {
+    const commands = this.commands;
+    const checkOwner = (owner: string | undefined, action: string) => {
+      if (owner !== plugin.name) {
+        assertPermission(plugin.name, this.getPermissions(plugin.name), 'plugins:manage', action);
+      }
+    };
+
+    return {
+      register: (id, handler, options = {}) => commands.register(id, async (args?: any) => {
+        try {
+          return await handler(args);
+        } catch (error) {
+          this.recordError(plugin.name, error);
+          throw error;
+        }
+      }, { ...options, plugin: plugin.name }),
+      unregister: id => {
+        const command = commands.get(id);
+        if (!command) return;
+        checkOwner(command.plugin, `unregister command ${id}`);
+        commands.unregister(id);
+      },
+      execute: (id, args) => commands.execute(id, args),
+      get: id => commands.get(id),
+      list: () => commands.list(),
+      removeByPlugin: owner => {
+        checkOwner(owner, `remove commands of plugin ${owner}`);
+        commands.removeByPlugin(owner);
+      },
+      subscribe: listener => commands.subscribe(listener)
+    };
+  }
+
+  // 插件上下文中的生命周期管理器：监听不受限制，触发和清除需要权限
+  private createScopedLifecycle(pluginName: string): ILifecycleManager {
+    const lifecycle = this.lifecycle;
+    const check = (permission: PluginPermission, action: string) => {
+      assertPermission(pluginName, this.getPermissions(pluginName), permission, action);
+    };
+
+    return {
+      on: (hook, callback) => lifecycle.on(hook, callback),
+      off: (hook, callback) => lifecycle.off(hook, callback),
+      emit: (hook, ...args) => {
+        check('lifecycle:emit', `emit lifecycle hook ${hook}`);
+        lifecycle.emit(hook, ...args);
+      },
+      emitAsync: async (hook, ...args) => {
+        check('lifecycle:emit', `emit lifecycle hook ${hook}`);
+        await lifecycle.emitAsync(hook, ...args);
+      },
+      clear: hook => {
+        check('lifecycle:manage', 'clear lifecycle hooks');
+        lifecycle.clear(hook);
+      },
+      getRegisteredHooks: () => lifecycle.getRegisteredHooks(),
+      setDebugMode: debug => {
+        check('lifecycle:manage', 'change lifecycle debug mode');
+        lifecycle.setDebugMode(debug);
+      }
+    };
+  }
+
+  // 插件上下文中的插件管理器：查询不受限制，修改需要 plugins:manage；
+  // 插件注册其他插件时不能附带权限调整，注册的插件不超过它自己的权限
+  private createScopedPlugins(pluginName: string): IPluginManager {
+    const untrusted = (plugin: Plugin): Plugin => {
+      const copy = { ...plugin };
+      this.untrusted.set(copy, this.getPermissions(pluginName));
+      return copy;
+    };
+
+    const manage = <A extends any[], R>(action: string, operation: (...args: A) => Promise<R>) => {
+      return (...args: A): Promise<R> => {
+        try {
+          assertPermission(pluginName, this.getPermissions(pluginName), 'plugins:manage', action);
+        } catch (error) {
+          return Promise.reject(error);
+        }
+        return operation(...args);
+      };
+    };
+
+    return {
+      register: manage('register plugins', (plugin: Plugin) => this.register(untrusted(plugin))),
+      registerAll: manage('register plugins', (plugins: Plugin[]) => this.registerAll(plugins.map(untrusted))),
+      replace: manage('replace plugins', (plugin: Plugin) => this.replace(untrusted(plugin))),
+      unregister: manage('unregister plugins', (name: string) => this.unregister(name)),
+      enable: manage('enable plugins', (name: string, options?: EnableOptions) => this.enable(name, options)),
+      disable: manage('disable plugins', (name: string, options?: DisableOptions) => this.disable(name, options)),
+      load: manage('load plugins', (name: string) => this.load(name)),
+      loadManifest: manage(
+        'load plugin manifests',
+        (source: string | PluginManifest | PluginManifestBundle) => (
+          this.loadManifestAs(source, this.getPermissions(pluginName))
+        )
+      ),
+      get: name => this.get(name),
+      getAll: () => this.getAll(),
+      getEnabled: () => this.getEnabled(),
+      getAPI: name => this.getAPI(name),
+      isLoaded: name => this.isLoaded(name),
+      getStatus: name => this.getStatus(name),
+      subscribeStatus: listener => this.subscribeStatus(listener),
+      getPermissions: name => this.getPermissions(name),
+      getSettings: name => this.getSettings(name),
+      updateSettings: (name, values) => {
+        if (name !== pluginName) {
+          assertPermission(pluginName, this.getPermissions(pluginName), 'plugins:manage', 'change plugin settings');
+        }
+        this.updateSettings(name, values);
+      },
+      resetSettings: name => {
+        if (name !== pluginName) {
+          assertPermission(pluginName, this.getPermissions(pluginName), 'plugins:manage', 'change plugin settings');
+        }
+        this.resetSettings(name);
+      },
+      subscribeSettings: (name, listener) => this.subscribeSettings(name, listener),
+      getSlotContributions: slot => this.getSlotContributions(slot),
+      getRoutes: () => this.getRoutes(),
+      matchRoute: location => this.matchRoute(location),
+      resolveRoute: location => this.resolveRoute(location),
+      getTiming: name => this.getTiming(name),
+      recordError: (name, error) => {
+        // 错误累计到阈值会隔离并禁用插件，上报其他插件的错误等同于禁用它
+        if (name !== pluginName) {
+          assertPermission(pluginName, this.getPermissions(pluginName), 'plugins:manage', 'report errors of other plugins');
+        }
+        this.recordError(name, error);
+      },
+      getErrorCount: name => this.getErrorCount(name),
+      checkHealth: name => this.checkHealth(name),
+      getQuarantined: () => this.getQuarantined(),
+      evaluateRules: () => this.evaluateRules(),
+      setRuleContext: manage(
+        'change the rule context',
+        (context: Partial<PluginRuleContext>) => this.setRuleContext(context)
+      ),
+      getRuleLog: () => this.getRuleLog(),
+      getRuleContext: () => this.getRuleContext(),
+      getDependencyGraph: () => this.getDependencyGraph(),
+      exportDependencyGraph: format => this.exportDependencyGraph(format),
+      getTransitiveDependencies: name => this.getTransitiveDependencies(name),
+      getTransitiveDependents: name => this.getTransitiveDependents(name),
+      getDisableOrder: name => this.getDisableOrder(name)
+    };
+  }
+
+  // 计算注册时生效的设置：宿主配置必须合法，已保存的用户修改不合法时丢弃
+  private resolveSettings(plugin: Plugin): PluginSettings {
+    const settings = this.mergeSettings(plugin, {});
+    this.assertValidSettings(plugin, settings);
+
+    const saved = this.loadUserSettings(plugin.name);
+    if (saved) {
+      const withSaved = this.mergeSettings(plugin, saved);
+      if (validateSettings(plugin.settings!, withSaved).length === 0) {
+        this.userSettings.set(plugin.name, saved);
+        return withSaved;
+      }
+      console.warn(`Ignoring saved settings of plugin ${plugin.name} that no longer match its schema`);
+    }
+
+    return settings;
+  }
+
+  private mergeSettings(plugin: Plugin, userValues: PluginSettings): PluginSettings {
+    return {
+      ...getDefaultSettings(plugin.settings),
+      ...this.hostSettings[plugin.name],
+      ...userValues
+    };
+  }
+
+  private assertValidSettings(plugin: Plugin, settings: PluginSettings): void {
+    const errors = validateSettings(plugin.settings!, settings);
+    if (errors.length > 0) {
+      throw new SDKError(
+        `Invalid settings for plugin ${plugin.name}: ${errors.join('; ')}`,
+        'INVALID_PLUGIN_SETTINGS',
+        { errors }
+      );
+    }
+  }
+
+  private requireSettingsSchema(name: string): Plugin {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      throw new SDKError(
+        `Plugin ${name} not found`,
+        'PLUGIN_NOT_FOUND'
+      );
+    }
+
+    if (!plugin.settings) {
+      throw new SDKError(
+        `Plugin ${name} does not declare settings`,
+        'PLUGIN_SETTINGS_NOT_FOUND'
+      );
+    }
+
+    return plugin;
+  }
+
+  private setEffectiveSettings(name: string, settings: PluginSettings | undefined): void {
+    if (!settings) {
+      this.settings.delete(name);
+      return;
+    }
+
+    this.settings.set(name, settings);
+    const listeners = this.settingsListeners.get(name);
+    if (!listeners) return;
+
+    listeners.forEach(listener => {
+      try {
+        listener({ ...settings });
+      } catch (error) {
+        console.error(`Error in settings listener of plugin ${name}:`, error);
+      }
+    });
+  }
+
+  private loadUserSettings(name: string): PluginSettings | null {
+    if (!this.settingsKey) return null;
+
+    try {
+      const saved = localStorage.getItem(`${this.settingsKey}:${name}`);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.warn(`Failed to load saved settings of plugin ${name}:`, error);
+      return null;
+    }
+  }
+
+  private persistUserSettings(name: string, values: PluginSettings | undefined): void {
+    if (!this.settingsKey) return;
+
+    try {
+      if (values) {
+        localStorage.setItem(`${this.settingsKey}:${name}`, JSON.stringify(values));
+      } else {
+        localStorage.removeItem(`${this.settingsKey}:${name}`);
+      }
+    } catch (error) {
+      console.error(`Failed to save settings of plugin ${name}:`, error);
+    }
+  }
+
+  // 未声明权限的插件按来源取默认权限；由插件注册的插件不超过注册方的权限（宿主调整也不例外）
+  private resolvePluginPermissions(plugin: Plugin, overrides?: PermissionOverrides): PluginPermission[] {
+    const untrusted = this.untrusted.has(plugin);
+    const declared = plugin.permissions ?? (untrusted ? RESTRICTED_PERMISSIONS : this.defaultPermissions);
+    let permissions = resolvePermissions(declared, this.hostPermissions[plugin.name], overrides);
+
+    const ceiling = this.untrusted.get(plugin);
+    if (ceiling) {
+      permissions = permissions.filter(permission => hasPermission(ceiling, permission));
+    }
+
+    const invalid = permissions.filter(permission => !isValidPermission(permission));
+    if (invalid.length > 0) {
+      throw new SDKError(
+        `Plugin ${plugin.name} has invalid permissions: ${invalid.join(', ')}`,
+        'INVALID_PERMISSION',
+        { invalid }
+      );
+    }
+    return permissions;
+  }
+
+  // 设置调试模式
+  setDebugMode(debug: boolean): void {
+    this.isDebug = debug;
+  }
+
+  // 设置用于 engines.sdk 检查的宿主SDK版本
+  setSDKVersion(version?: string): void {
+    this.sdkVersion = version;
+  }
+
+  private createManifestPlugin(manifest: PluginManifest, manifestUrl?: string): Plugin {
+    const entry = resolveManifestEntry(manifest.entry, manifestUrl);
+
+    return {
+      name: manifest.name,
+      version: manifest.version,
+      enabled: manifest.enabled ?? true,
+      description: manifest.description,
+      author: manifest.author,
+      icon: manifest.icon,
+      dependencies: manifest.dependencies,
+      optionalDependencies: manifest.optionalDependencies,
+      conflicts: manifest.conflicts,
+      engines: manifest.engines,
+      config: manifest.config ? { ...manifest.config } : undefined,
+      permissions: manifest.permissions,
+      settings: manifest.settings,
+      enabledWhen: manifest.enabledWhen,
+      load: () => this.moduleLoader(entry)
+    };
+  }
+
+  private async loadImplementation(plugin: Plugin): Promise<void> {
+    try {
+      const module = await plugin.load!();
+      const implementation: PluginImplementation = 'default' in module ? module.default : module;
+
+      // 只合并实现部分，生成新的插件对象，不修改注册时的描述；
+      // 描述中已声明的设置定义（如清单中的）优先
+      const keys = plugin.settings ? IMPLEMENTATION_KEYS.filter(key => key !== 'settings') : IMPLEMENTATION_KEYS;
+      const loaded: Plugin = { ...plugin, ...pickImplementation(implementation, keys) };
+
+      // 加载期间插件被注销或替换时丢弃结果
+      if (this.plugins.get(plugin.name) !== plugin) return;
+
+      this.plugins.set(plugin.name, loaded);
+      this.loadedPlugins.add(plugin.name);
+
+      if (this.isDebug) {
+        console.log(`Plugin ${plugin.name} loaded successfully`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const sdkError = new SDKError(
+        `Failed to load plugin ${plugin.name}: ${errorMessage}`,
+        'PLUGIN_LOAD_FAILED',
+        error
+      );
+
+      this.lifecycle.emit('error', sdkError, `loading plugin ${plugin.name}`);
+      throw sdkError;
+    }
+  }
+
+  // 启动插件并登记为进行中，供并发的 enable、disable 等待
+  private async start(plugin: Plugin): Promise<void> {
+    const starting = this.runStart(plugin);
+    this.starts.set(plugin.name, starting);
+
+    try {
+      await starting;
+    } finally {
+      if (this.starts.get(plugin.name) === starting) {
+        this.starts.delete(plugin.name);
+      }
+    }
+  }
+
+  // 按状态机启用插件：loading（懒加载时）-> initializing -> enabled，失败时进入 failed
+  private async runStart(plugin: Plugin): Promise<void> {
+    const needsLoad = !this.isLoaded(plugin.name);
+    const startedAt = Date.now();
+    this.setStatus(plugin.name, needsLoad ? 'loading' : 'initializing');
+    // 重新启用时解除隔离并重新计数
+    this.quarantined.delete(plugin.name);
+    this.errorTimes.delete(plugin.name);
+
+    try {
+      if (needsLoad) {
+        await this.load(plugin.name);
+        // 加载后插件对象被替换为包含实现的新对象
+        plugin = this.plugins.get(plugin.name)!;
+        this.setStatus(plugin.name, 'initializing');
+      }
+
+      // 懒加载的实现中声明的设置在加载后校验
+      if (plugin.settings && !this.settings.has(plugin.name)) {
+        this.settings.set(plugin.name, this.resolveSettings(plugin));
+      }
+
+      // 初始化前创建插件的状态切片，已存在时沿用
+      if (plugin.initialState) {
+        this.state.createSlice(plugin.name, plugin.initialState);
+      }
+
+      // 安装状态中间件需要 state:write，初始化前检查
+      if (plugin.stateMiddleware) {
+        assertPermission(plugin.name, this.getPermissions(plugin.name), 'state:write', 'install state middleware');
+      }
+
+      await this.activate(plugin);
+      this.attachHooks(plugin);
+      this.attachMiddleware(plugin);
+      this.setStatus(plugin.name, 'enabled');
+      this.scheduleHealthCheck(plugin);
+    } catch (error) {
+      // 初始化失败前注册的命令随之移除
+      this.commands.removeByPlugin(plugin.name);
+      this.setStatus(plugin.name, 'failed', error);
+      this.reportError(plugin, error);
+      throw error;
+    } finally {
+      this.timings.set(plugin.name, { startedAt, duration: Date.now() - startedAt });
+    }
+  }
+
+  // 按状态机禁用插件：disabling -> disabled，销毁失败时进入 failed
+  private async stop(plugin: Plugin): Promise<void> {
+    this.setStatus(plugin.name, 'disabling');
+    this.detachHooks(plugin.name);
+    this.detachMiddleware(plugin.name);
+    this.commands.removeByPlugin(plugin.name);
+    this.clearHealthCheck(plugin.name);
+
+    try {
+      await this.deactivate(plugin);
+      this.setStatus(plugin.name, 'disabled');
+    } catch (error) {
+      this.setStatus(plugin.name, 'failed', error);
+      this.reportError(plugin, error);
+      throw error;
+    }
+  }
+
+  // 将插件 hooks 绑定到对应的生命周期事件；hook 抛出的错误先交给插件的 onError，
+  // 再由生命周期管理器按常规方式报告
+  private attachHooks(plugin: Plugin): void {
+    const { hooks } = plugin;
+    if (!hooks) return;
+
+    const bind = (hook: LifecycleHook, callback: (...args: any[]) => void) => {
+      return this.lifecycle.on(hook, (...args: any[]) => {
+        try {
+          callback(...args);
+        } catch (error) {
+          this.recordError(plugin.name, error);
+          throw error;
+        }
+      });
+    };
+
+    const subscriptions: Array<() => void> = [];
+    if (hooks.onMount) {
+      subscriptions.push(bind('afterMount', () => hooks.onMount!()));
+    }
+    if (hooks.onUnmount) {
+      subscriptions.push(bind('beforeUnmount', () => hooks.onUnmount!()));
+    }
+    if (hooks.onStateChange) {
+      subscriptions.push(bind('stateChange', (state, prevState) => hooks.onStateChange!(state, prevState)));
+    }
+
+    this.hookSubscriptions.set(plugin.name, subscriptions);
+  }
+
+  private detachHooks(name: string): void {
+    const subscriptions = this.hookSubscriptions.get(name);
+    if (!subscriptions) return;
+
+    subscriptions.forEach(unsubscribe => unsubscribe());
+    this.hookSubscriptions.delete(name);
+  }
+
+  private async applyRules(): Promise<void> {
+    const ruled = resolvePluginOrder(this.getAll()).order.filter(plugin => plugin.enabledWhen);
+    if (ruled.length === 0) return;
+
+    const input = this.getRuleInput();
+    const results = new Map<string, boolean | undefined>();
+    ruled.forEach(plugin => results.set(plugin.name, this.checkEnabledWhen(plugin, input)));
+
+    for (const plugin of ruled.slice().reverse()) {
+      if (results.get(plugin.name) !== false || this.statuses.get(plugin.name) !== 'enabled') continue;
+
+      const reason = `enabledWhen no longer matches: ${describeRule(plugin.enabledWhen!)}`;
+      try {
+        const disabled = await this.disable(plugin.name, { cascade: true });
+        disabled.forEach(name => {
+          this.logRuleToggle(name, 'disable', name === plugin.name
+            ? reason
+            : `dependency ${plugin.name} was disabled by its enabledWhen rule`);
+        });
+      } catch (error) {
+        this.logRuleToggle(plugin.name, 'disable', reason, error);
+      }
+    }
+
+    for (const plugin of ruled) {
+      if (results.get(plugin.name) !== true || this.statuses.get(plugin.name) !== 'disabled') continue;
+      // 被隔离的插件需要手动启用；依赖未启用时等待下一次评估
+      if (this.quarantined.has(plugin.name) || !this.dependenciesEnabled(plugin)) continue;
+
+      const reason = `enabledWhen matched: ${describeRule(plugin.enabledWhen!)}`;
+      try {
+        await this.enable(plugin.name);
+        this.logRuleToggle(plugin.name, 'enable', reason);
+      } catch (error) {
+        this.logRuleToggle(plugin.name, 'enable', reason, error);
+      }
+    }
+  }
+
+  // 计算插件的 enabledWhen，规则抛错时返回 undefined，插件保持当前状态
+  private checkEnabledWhen(plugin: Plugin, input: PluginRuleInput = this.getRuleInput()): boolean | undefined {
+    try {
+      return evaluateEnabledWhen(plugin.enabledWhen!, input);
+    } catch (error) {
+      console.warn(`Failed to evaluate enabledWhen of plugin ${plugin.name}:`, error);
+      return undefined;
+    }
+  }
+
+  private getRuleInput(): PluginRuleInput {
+    return { state: this.state.getState(), ...this.ruleContext };
+  }
+
+  private dependenciesEnabled(plugin: Plugin): boolean {
+    return getDependencyNames(plugin).every(dep => {
+      const depPlugin = this.plugins.get(dep);
+      return !!depPlugin && depPlugin.enabled;
+    });
+  }
+
+  private logRuleToggle(name: string, action: 'enable' | 'disable', reason: string, error?: unknown): void {
+    const entry: PluginRuleLogEntry = { name, action, reason, timestamp: Date.now() };
+    if (error === undefined) {
+      if (this.isDebug) {
+        console.log(`Plugin ${name} ${action}d automatically: ${reason}`);
+      }
+    } else {
+      entry.error = error;
+      console.warn(`Failed to ${action} plugin ${name} automatically (${reason}):`, error);
+    }
+
+    this.ruleLog.push(entry);
+    if (this.ruleLog.length > MAX_RULE_LOG) {
+      this.ruleLog.shift();
+    }
+  }
+
+  // 以插件名安装状态中间件，抛出的错误计入插件后交给 StateManager 跳过该中间件
+  // 插件中间件以 plugin:<插件名> 注册，不会覆盖宿主的同名中间件
+  private attachMiddleware(plugin: Plugin): void {
+    const { stateMiddleware } = plugin;
+    if (!stateMiddleware) return;
+
+    const dispose = this.state.use(`plugin:${plugin.name}`, (update, next) => {
+      try {
+        stateMiddleware(update, next);
+      } catch (error) {
+        this.recordError(plugin.name, error);
+        throw error;
+      }
+    });
+    this.middlewareDisposers.set(plugin.name, dispose);
+  }
+
+  private detachMiddleware(name: string): void {
+    const dispose = this.middlewareDisposers.get(name);
+    if (dispose) {
+      dispose();
+      this.middlewareDisposers.delete(name);
+    }
+  }
+
+  // 启用期间按 checkInterval 定期执行健康检查，上一次检查未结束时跳过本次
+  private scheduleHealthCheck(plugin: Plugin): void {
+    if (!plugin.healthCheck) return;
+
+    const { checkInterval = DEFAULT_HEALTH_CHECK_INTERVAL } = this.getHealthPolicy(plugin);
+    if (checkInterval <= 0) return;
+
+    const name = plugin.name;
+    const timer = setInterval(() => {
+      if (this.runningHealthChecks.has(name)) return;
+
+      this.runningHealthChecks.add(name);
+      const done = () => {
+        this.runningHealthChecks.delete(name);
+      };
+      this.checkHealth(name).then(done, done);
+    }, checkInterval);
+
+    this.healthTimers.set(name, timer);
+  }
+
+  private clearHealthCheck(name: string): void {
+    const timer = this.healthTimers.get(name);
+    if (timer === undefined) return;
+
+    clearInterval(timer);
+    this.healthTimers.delete(name);
+  }
+
+  private getHealthPolicy(plugin: Plugin): PluginHealthPolicy {
+    return { ...this.healthPolicy, ...plugin.health };
+  }
+
+  // 本次启用以来的错误时间，设置 errorWindow 时只保留窗口内的
+  private getRecentErrors(plugin: Plugin): number[] {
+    const { errorWindow } = this.getHealthPolicy(plugin);
+    const errors = this.errorTimes.get(plugin.name) || [];
+    if (!errorWindow) return errors.slice();
+
+    const now = Date.now();
+    return errors.filter(time => now - time < errorWindow);
+  }
+
+  // 隔离插件：记录原因，连同启用的依赖方一起禁用，完成后发出 pluginQuarantined
+  private quarantine(plugin: Plugin, reason: string, error: unknown): void {
+    const record: PluginQuarantine = {
+      name: plugin.name,
+      reason,
+      error,
+      quarantinedAt: Date.now(),
+      disabled: []
+    };
+    this.quarantined.set(plugin.name, record);
+    console.warn(`Plugin ${plugin.name} quarantined: ${reason}`);
+
+    this.disable(plugin.name, { cascade: true })
+      .then(disabled => {
+        record.disabled = disabled;
+      })
+      .catch(disableError => {
+        console.warn(`Failed to disable quarantined plugin ${plugin.name}:`, disableError);
+      })
+      .then(() => {
+        this.emitPluginEvent('pluginQuarantined', plugin, error, reason);
+      });
+  }
+
+  // 将插件自身代码抛出的错误交给它的 onError
+  private reportError(plugin: Plugin, error: unknown): void {
+    const onError = plugin.hooks && plugin.hooks.onError;
+    if (!onError) return;
+
+    try {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    } catch (hookError) {
+      console.error(`Error in onError hook of plugin ${plugin.name}:`, hookError);
+    }
+  }
+
+  // 校验并执行状态转换，同步 enabled 标记后通知订阅者
+  private setStatus(name: string, status: PluginStatus, error?: unknown): void {
+    const previousStatus = this.statuses.get(name) ?? 'disabled';
+    if (STATUS_TRANSITIONS[previousStatus].indexOf(status) === -1) {
+      throw new SDKError(
+        `Plugin ${name} cannot change status from ${previousStatus} to ${status}`,
+        'INVALID_STATUS_TRANSITION',
+        { from: previousStatus, to: status }
+      );
+    }
+
+    this.statuses.set(name, status);
+    const plugin = this.plugins.get(name);
+    if (plugin) {
+      plugin.enabled = status === 'enabled';
+    }
+
+    if (this.isDebug) {
+      console.log(`Plugin ${name} status: ${previousStatus} -> ${status}`);
+    }
+
+    const event = { name, status, previousStatus, error };
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        console.error('Error in plugin status listener:', listenerError);
+      }
+    });
+
+    if (plugin) {
+      if (status === 'enabled') {
+        this.emitPluginEvent('pluginEnabled', plugin);
+      } else if (status === 'disabled') {
+        this.emitPluginEvent('pluginDisabled', plugin);
+      } else if (status === 'failed') {
+        this.emitPluginEvent('pluginFailed', plugin, error);
+      }
+    }
+  }
+
+  // 通过生命周期管理器广播插件事件
+  private emitPluginEvent(hook: PluginLifecycleHook, plugin: Plugin, error?: unknown, reason?: string): void {
+    const event: PluginLifecycleEvent = { name: plugin.name, version: plugin.version };
+    if (error !== undefined) {
+      event.error = error;
+    }
+    if (reason !== undefined) {
+      event.reason = reason;
+    }
+    this.lifecycle.emit(hook, event);
+  }
+
+  // 初始化插件并创建其导出的API
+  private async activate(plugin: Plugin): Promise<void> {
+    // 懒加载插件在首次启用时获取实现
+    await this.load(plugin.name);
+
+    const context = this.createContext(plugin);
+
+    if (plugin.initialize) {
+      await this.runInitialize(plugin, context);
+    }
+
+    if (plugin.api) {
+      try {
+        this.apis.set(plugin.name, plugin.api(context));
+      } catch (error) {
+        // API 创建失败时撤销已完成的初始化
+        await this.deactivate(plugin).catch(destroyError => {
+          console.warn(`Failed to destroy plugin ${plugin.name} after its API factory threw:`, destroyError);
+        });
+        throw error;
+      }
+    }
+  }
+
+  // 销毁插件并移除其导出的API
+  private async deactivate(plugin: Plugin): Promise<void> {
+    this.apis.delete(plugin.name);
+
+    if (plugin.destroy) {
+      const { destroyTimeout } = this.getExecutionPolicy(plugin);
+      await this.withTimeout(
+        plugin.destroy(this.createContext(plugin)),
+        destroyTimeout,
+        () => new SDKError(
+          `Plugin ${plugin.name} did not finish destroying within ${destroyTimeout}ms`,
+          'PLUGIN_DESTROY_TIMEOUT',
+          { timeout: destroyTimeout }
+        ),
+        `destroying plugin ${plugin.name}`
+      );
+    }
+  }
+
+  // 按执行策略调用 initialize：超时后按退避间隔重试
+  private async runInitialize(plugin: Plugin, context: PluginContext): Promise<void> {
+    const { initTimeout, retries = 0, retryDelay = 0, backoffFactor = 2 } = this.getExecutionPolicy(plugin);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.withTimeout(
+          plugin.initialize!(context),
+          initTimeout,
+          () => new SDKError(
+            `Plugin ${plugin.name} did not initialize within ${initTimeout}ms`,
+            'PLUGIN_INIT_TIMEOUT',
+            { timeout: initTimeout, attempt }
+          ),
+          `initializing plugin ${plugin.name}`
+        );
+        return;
+      } catch (error) {
+        if (attempt > retries) {
+          throw error;
+        }
+
+        const wait = retryDelay * Math.pow(backoffFactor, attempt - 1);
+        console.warn(
+          `Plugin ${plugin.name} failed to initialize (attempt ${attempt}/${retries + 1}), retrying in ${wait}ms`
+        );
+        await delay(wait);
+      }
+    }
+  }
+
+  // 插件自身的策略覆盖全局策略
+  private getExecutionPolicy(plugin: Plugin): PluginExecutionPolicy {
+    return { ...this.executionPolicy, ...plugin.policy };
+  }
+
+  // 超时后通过生命周期 error 钩子发出错误并拒绝；已开始的调用无法取消
+  private withTimeout(
+    result: Promise<void> | void,
+    timeout: number | undefined,
+    createError: () => SDKError,
+    errorContext: string
+  ): Promise<void> {
+    const promise = Promise.resolve(result);
+    if (!timeout || timeout <= 0) {
+      return promise;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = createError();
+        this.lifecycle.emit('error', error, errorContext);
+        reject(error);
+      }, timeout);
+
+      promise.then(
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  // 回滚时销毁插件，忽略销毁错误
+  private async forceDeactivate(name: string): Promise<void> {
+    const plugin = this.plugins.get(name);
+    if (!plugin || !plugin.enabled) return;
+
+    try {
+      await this.stop(plugin);
+    } catch (error) {
+      console.warn(`Failed to destroy plugin ${name} during rollback:`, error);
+    }
+  }
+
+  // 按逆序销毁并移除插件，用于批量操作失败后的回滚
+  private async rollback(names: string[]): Promise<void> {
+    for (const name of names.slice().reverse()) {
+      await this.forceDeactivate(name);
+      this.removePlugin(name);
+    }
+  }
+
+  // 移除插件及其在依赖图中的所有边
+  private removePlugin(name: string): void {
+    const plugin = this.plugins.get(name);
+    this.plugins.delete(name);
+    this.apis.delete(name);
+    this.loads.delete(name);
+    this.loadedPlugins.delete(name);
+    this.statuses.delete(name);
+    this.permissions.delete(name);
+    this.registerPermissions.delete(name);
+    this.settings.delete(name);
+    this.userSettings.delete(name);
+    this.timings.delete(name);
+    this.errorTimes.delete(name);
+    this.quarantined.delete(name);
+    this.clearHealthCheck(name);
+    this.dependencyGraph.delete(name);
+    this.dependencyGraph.forEach(edges => {
+      edges.delete(name);
+    });
+
+    if (plugin) {
+      this.cleanupState(plugin);
+      this.emitPluginEvent('pluginUnregistered', plugin);
+    }
+  }
+
+  // 按插件的 stateCleanup 策略处理状态切片
+  private cleanupState(plugin: Plugin): void {
+    const policy = plugin.stateCleanup ?? 'remove';
+    if (policy === 'keep') return;
+
+    this.state.removeSlice(plugin.name, { clearPersisted: policy === 'purge' });
+  }
+
+  // 用新定义替换已注册的插件，并重建它作为依赖方的边
+  private swapPlugin(plugin: Plugin): void {
+    this.plugins.set(plugin.name, plugin);
+    this.apis.delete(plugin.name);
+    this.loads.delete(plugin.name);
+    this.loadedPlugins.delete(plugin.name);
+
+    this.dependencyGraph.forEach(edges => {
+      edges.delete(plugin.name);
+    });
+    this.updateDependencyGraph(plugin);
+  }
+
+  // 通知已启用的依赖方其依赖已被替换
+  private async notifyDependents(plugin: Plugin, previous: Plugin): Promise<void> {
+    for (const name of this.getDependents(plugin.name)) {
+      const dependent = this.plugins.get(name);
+      if (!dependent || !dependent.enabled || !dependent.onDependencyReplaced) continue;
+
+      try {
+        await dependent.onDependencyReplaced(
+          { name: plugin.name, previousVersion: previous.version, version: plugin.version },
+          this.createContext(dependent)
+        );
+      } catch (error) {
+        this.reportError(dependent, error);
+        console.warn(`Plugin ${name} failed to handle replacement of ${plugin.name}:`, error);
+      }
+    }
+  }
+
+  private createLogger(pluginName: string): PluginLogger {
+    const prefix = `[${pluginName}]`;
+
+    return {
+      debug: (...args: any[]) => {
+        if (this.isDebug) {
+          console.log(prefix, ...args);
+        }
+      },
+      info: (...args: any[]) => console.info(prefix, ...args),
+      warn: (...args: any[]) => console.warn(prefix, ...args),
+      error: (...args: any[]) => console.error(prefix, ...args)
+    };
+  }
+
+  private async validateDependencies(plugin: Plugin): Promise<void> {
+    // 检查宿主SDK版本
+    const sdkRange = plugin.engines?.sdk;
+    if (sdkRange && this.sdkVersion && !satisfies(this.sdkVersion, sdkRange)) {
+      throw new SDKError(
+        `Plugin ${plugin.name} requires SDK version ${sdkRange}, but the host is ${this.sdkVersion}`,
+        'SDK_VERSION_MISMATCH',
+        { required: sdkRange, actual: this.sdkVersion }
+      );
+    }
+
+    const ranges = normalizeDependencies(plugin.dependencies);
+    for (const dep of Object.keys(ranges)) {
+      const depPlugin = this.plugins.get(dep);
+      if (!depPlugin) {
+        throw new SDKError(
+          `Dependency ${dep} not found`,
+          'DEPENDENCY_NOT_FOUND'
+        );
+      }
+
+      if (!satisfies(depPlugin.version, ranges[dep])) {
+        throw new SDKError(
+          `Dependency ${dep} requires version ${ranges[dep]}, but ${depPlugin.version} is registered`,
+          'DEPENDENCY_VERSION_MISMATCH',
+          { dependency: dep, required: ranges[dep], actual: depPlugin.version }
+        );
+      }
+    }
+
+    // 可选依赖缺失时忽略，存在时检查版本
+    const optionalRanges = normalizeDependencies(plugin.optionalDependencies);
+    for (const dep of Object.keys(optionalRanges)) {
+      const depPlugin = this.plugins.get(dep);
+      if (depPlugin && !satisfies(depPlugin.version, optionalRanges[dep])) {
+        throw new SDKError(
+          `Optional dependency ${dep} requires version ${optionalRanges[dep]}, but ${depPlugin.version} is registered`,
+          'DEPENDENCY_VERSION_MISMATCH',
+          { dependency: dep, required: optionalRanges[dep], actual: depPlugin.version }
+        );
+      }
+    }
+
+    // 检查循环依赖（包含可选依赖，它们同样决定初始化顺序）
+    const visited = new Set<string>();
+    const recursionStack = new Set<string>();
+
+    const hasCycle = (pluginName: string): boolean => {
+      visited.add(pluginName);
+      recursionStack.add(pluginName);
+
+      const target = pluginName === plugin.name ? plugin : this.plugins.get(pluginName);
+      const pluginDeps = target ? getAllDependencyNames(target) : [];
+
+      for (const dep of pluginDeps) {
+        if (!visited.has(dep)) {
+          if (hasCycle(dep)) return true;
+        } else if (recursionStack.has(dep)) {
+          return true;
+        }
+      }
+
+      recursionStack.delete(pluginName);
+      return false;
+    };
+
+    if (hasCycle(plugin.name)) {
+      throw new SDKError(
+        `Circular dependency detected for plugin ${plugin.name}`,
+        'CIRCULAR_DEPENDENCY'
+      );
+    }
+  }
+
+  // 检查已注册的依赖方声明的版本范围是否接受新版本
+  private validateDependentRanges(plugin: Plugin): void {
+    for (const name of this.getDependents(plugin.name)) {
+      const dependent = this.plugins.get(name);
+      if (!dependent) continue;
+
+      const ranges = {
+        ...normalizeDependencies(dependent.optionalDependencies),
+        ...normalizeDependencies(dependent.dependencies)
+      };
+      const range = ranges[plugin.name];
+
+      if (range && !satisfies(plugin.version, range)) {
+        throw new SDKError(
+          `Plugin ${name} requires ${plugin.name} ${range}, but the replacement is ${plugin.version}`,
+          'DEPENDENCY_VERSION_MISMATCH',
+          { dependent: name, required: range, actual: plugin.version }
+        );
+      }
+    }
+  }
+
+  // 正在加载或初始化的插件也视为已启用，避免并发启用两个冲突的插件
+  private validateConflicts(plugin: Plugin): void {
+    const conflicting = this.getAll().filter(other => {
+      const status = this.statuses.get(other.name);
+      const active = status === 'loading' || status === 'initializing' || status === 'enabled';
+      return active && other.name !== plugin.name && pluginsConflict(plugin, other);
+    });
+
+    if (conflicting.length > 0) {
+      throw new SDKError(
+        `Plugin ${plugin.name} conflicts with enabled plugins: ${conflicting.map(p => p.name).join(', ')}`,
+        'PLUGIN_CONFLICT',
+        { conflicts: conflicting.map(p => p.name) }
+      );
+    }
+  }
+
+  private updateDependencyGraph(plugin: Plugin): void {
+    for (const dep of getDependencyNames(plugin)) {
+      this.addDependencyEdge(dep, plugin.name, 'required');
+    }
+
+    for (const dep of getOptionalDependencyNames(plugin)) {
+      if (this.plugins.has(dep)) {
+        this.addDependencyEdge(dep, plugin.name, 'optional');
+      }
+    }
+
+    // 先注册的插件可能将此插件声明为可选依赖
+    this.plugins.forEach(other => {
+      if (other.name !== plugin.name && getOptionalDependencyNames(other).indexOf(plugin.name) !== -1) {
+        this.addDependencyEdge(plugin.name, other.name, 'optional');
+      }
+    });
+  }
+
+  private addDependencyEdge(dependency: string, dependent: string, kind: DependencyKind): void {
+    if (!this.dependencyGraph.has(dependency)) {
+      this.dependencyGraph.set(dependency, new Map());
+    }
+
+    // 必需依赖优先于可选依赖
+    const edges = this.dependencyGraph.get(dependency)!;
+    if (edges.get(dependent) !== 'required') {
+      edges.set(dependent, kind);
+    }
+  }
+
+  // 传递性的必需依赖，按初始化顺序（最底层在前），不含插件自身
+  private collectDependencies(pluginName: string): string[] {
+    const result: string[] = [];
+    const visited = new Set<string>([pluginName]);
+
+    const visit = (name: string) => {
+      const plugin = this.plugins.get(name);
+      if (!plugin) return;
+
+      for (const dep of getDependencyNames(plugin)) {
+        if (!visited.has(dep)) {
+          visited.add(dep);
+          visit(dep);
+          if (this.plugins.has(dep)) {
+            result.push(dep);
+          }
+        }
+      }
+    };
+
+    visit(pluginName);
+    return result;
+  }
+
+  // 传递性的必需依赖方，按禁用顺序（最上层在前），不含插件自身
+  private collectDependents(pluginName: string): string[] {
+    const result: string[] = [];
+    const visited = new Set<string>([pluginName]);
+
+    const visit = (name: string) => {
+      for (const dependent of this.getDependents(name, 'required')) {
+        if (!visited.has(dependent)) {
+          visited.add(dependent);
+          visit(dependent);
+          result.push(dependent);
+        }
+      }
+    };
+
+    visit(pluginName);
+    return result;
+  }
+
+  private getDependents(pluginName: string, kind?: DependencyKind): string[] {
+    const edges = this.dependencyGraph.get(pluginName);
+    if (!edges) return [];
+
+    return Array.from(edges.keys()).filter(name => !kind || edges.get(name) === kind);
+  }
+}
+
+function pickImplementation(
+  implementation: PluginImplementation,
+  keys: Array<keyof PluginImplementation>
+): PluginImplementation {
+  const picked: PluginImplementation = {};
+  keys.forEach(key => {
+    if (implementation[key] !== undefined) {
+      Object.assign(picked, { [key]: implementation[key] });
+    }
+  });
+  return picked;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 函数式更新后发生变化的顶层键
+function getChangedKeys(prev: Record<string, any>, next: Record<string, any>): string[] {
+  const keys = Object.keys(next).filter(key => next[key] !== prev[key]);
+  Object.keys(prev).forEach(key => {
+    if (!(key in next)) keys.push(key);
+  });
+  return keys;
+}
+
+async function defaultManifestFetcher(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function defaultModuleLoader(entry: string) {
+  return import(/* webpackIgnore: true */ /* @vite-ignore */ entry);
+}
+
+// 相对 entry 基于清单URL解析
+function resolveManifestEntry(entry: string, manifestUrl?: string): string {
+  if (!manifestUrl) return entry;
+
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined;
+    return new URL(entry, new URL(manifestUrl, base)).href;
+  } catch {
+    return entry;
   }
-} 
\ No newline at end of file
+}
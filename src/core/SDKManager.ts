@@ -1,23 +1,28 @@
 import { 
   SDKManager as ISDKManager, 
   SDKManagerConfig, 
-  PluginManager as IPluginManager,
+  PluginTiming,
   StateManager as IStateManager,
   LifecycleManager as ILifecycleManager,
+  CommandManager as ICommandManager,
   SDKError 
 } from '../types';
 import { PluginManager } from './PluginManager';
 import { StateManager } from './StateManager';
 import { LifecycleManager } from './LifecycleManager';
+import { CommandManager } from './CommandManager';
+import { getAllDependencyNames } from '../utils/pluginHelpers';
 
 export class SDKManager implements ISDKManager {
-  public readonly plugins: IPluginManager;
+  public readonly plugins: PluginManager;
   public readonly state: IStateManager;
   public readonly lifecycle: ILifecycleManager;
+  public readonly commands: ICommandManager;
   
   private config: SDKManagerConfig;
   private isInitialized: boolean = false;
   private isDestroyed: boolean = false;
+  private stopRuleEvaluation: () => void;
 
   constructor(config: SDKManagerConfig = {}) {
     this.config = {
@@ -32,19 +37,47 @@ export class SDKManager implements ISDKManager {
     };
 
     // 初始化核心组件
-    this.plugins = new PluginManager();
     this.state = new StateManager({
       initialState: this.config.initialState,
       persist: this.config.persist,
-      persistKey: this.config.persistKey
+      persistKey: this.config.persistKey,
+      middlewareOrder: this.config.stateMiddlewareOrder
     });
     this.lifecycle = new LifecycleManager(this.config.debug);
+    // 命令的 when 与插件的 enabledWhen 使用同一份状态和规则上下文
+    this.commands = new CommandManager({
+      getRuleInput: () => ({ state: this.state.getState(), ...this.plugins.getRuleContext() })
+    });
+    this.plugins = new PluginManager({
+      state: this.state,
+      lifecycle: this.lifecycle,
+      commands: this.commands,
+      debug: this.config.debug,
+      sdkVersion: this.config.version,
+      executionPolicy: this.config.pluginPolicy,
+      manifestFetcher: this.config.manifestFetcher,
+      moduleLoader: this.config.moduleLoader,
+      permissions: this.config.pluginPermissions,
+      defaultPermissions: this.config.defaultPluginPermissions,
+      settings: this.config.pluginSettings,
+      settingsKey: this.config.persistKey ? `${this.config.persistKey}:settings` : undefined,
+      concurrency: this.config.pluginConcurrency,
+      health: this.config.pluginHealth,
+      ruleContext: this.config.ruleContext
+    });
 
     // 设置状态变化监听器
     this.state.subscribe((newState, prevState) => {
       this.lifecycle.emit('stateChange', newState, prevState);
     });
 
+    // 状态变化时重新计算插件的 enabledWhen 规则，销毁时停止
+    this.stopRuleEvaluation = this.state.subscribe(() => {
+      this.plugins.evaluateRules().catch(error => {
+        console.error('Failed to evaluate plugin enabledWhen rules:', error);
+      });
+    });
+
     // 设置错误处理
     this.lifecycle.on('error', (error: Error, context?: string) => {
       if (this.config.debug) {
@@ -66,11 +99,9 @@ export class SDKManager implements ISDKManager {
       // 触发初始化前钩子
       await this.lifecycle.emitAsync('beforeMount');
 
-      // 注册配置中的插件
+      // 按依赖层级注册配置中的插件，同一层级并行初始化，失败时已注册的插件会被回滚
       if (this.config.plugins && this.config.plugins.length > 0) {
-        for (const plugin of this.config.plugins) {
-          await this.plugins.register(plugin);
-        }
+        await this.plugins.registerAll(this.config.plugins);
       }
 
       this.isInitialized = true;
@@ -102,6 +133,9 @@ export class SDKManager implements ISDKManager {
       // 触发销毁前钩子
       await this.lifecycle.emitAsync('beforeUnmount');
 
+      // 销毁过程中插件改变状态时不再自动启用插件
+      this.stopRuleEvaluation();
+
       // 获取所有插件并按依赖关系逆序禁用
       const allPlugins = this.plugins.getAll();
       const sortedPlugins = this.sortPluginsByDependenciesReverse(allPlugins);
@@ -110,13 +144,10 @@ export class SDKManager implements ISDKManager {
       for (const plugin of sortedPlugins) {
         if (plugin.enabled) {
           try {
-            await this.plugins.disable(plugin.name);
+            await this.plugins.disable(plugin.name, { cascade: true });
           } catch (error) {
-            // 在销毁过程中忽略依赖错误，强制禁用
-            if (plugin.destroy) {
-              await plugin.destroy();
-            }
-            plugin.enabled = false;
+            // 在销毁过程中忽略错误，销毁失败的插件会进入 failed 状态
+            console.warn(`Failed to disable plugin ${plugin.name} during destroy:`, error);
           }
         }
       }
@@ -172,10 +203,24 @@ export class SDKManager implements ISDKManager {
       pluginCount: this.plugins.getAll().length,
       enabledPluginCount: this.plugins.getEnabled().length,
       stateListenerCount: this.state.getListenerCount(),
-      registeredHooks: this.lifecycle.getRegisteredHooks()
+      registeredHooks: this.lifecycle.getRegisteredHooks(),
+      pluginTimings: this.getPluginTimings(),
+      quarantinedPlugins: this.plugins.getQuarantined()
     };
   }
 
+  // 已注册插件最近一次启动的耗时
+  private getPluginTimings(): Record<string, PluginTiming> {
+    const timings: Record<string, PluginTiming> = {};
+    for (const plugin of this.plugins.getAll()) {
+      const timing = this.plugins.getTiming(plugin.name);
+      if (timing) {
+        timings[plugin.name] = timing;
+      }
+    }
+    return timings;
+  }
+
   // 重置SDK状态
   async reset(): Promise<void> {
     if (!this.isInitialized) {
@@ -217,6 +262,11 @@ export class SDKManager implements ISDKManager {
     // 更新调试模式
     if (newConfig.debug !== undefined) {
       this.lifecycle.setDebugMode(newConfig.debug);
+      this.plugins.setDebugMode(newConfig.debug);
+    }
+
+    if (newConfig.version !== undefined) {
+      this.plugins.setSDKVersion(newConfig.version);
     }
   }
 
@@ -239,7 +289,7 @@ export class SDKManager implements ISDKManager {
 
       // 先访问依赖此插件的其他插件
       for (const otherPlugin of plugins) {
-        if (otherPlugin.dependencies && otherPlugin.dependencies.indexOf(plugin.name) !== -1) {
+        if (getAllDependencyNames(otherPlugin).indexOf(plugin.name) !== -1) {
           visit(otherPlugin);
         }
       }
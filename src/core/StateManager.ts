@@ -1,12 +1,28 @@
-import { StateManager as IStateManager, StateListener, StateConfig } from '../types';
+import {
+  StateManager as IStateManager,
+  StateListener,
+  StateConfig,
+  StateMiddleware,
+  StateUpdate,
+  RemoveSliceOptions,
+  SDKError
+} from '../types';
 
 export class StateManager<T = any> implements IStateManager<T> {
   private state: T;
   private listeners: Set<StateListener<T>> = new Set();
   private config: StateConfig<T>;
+  // 命名空间状态切片，与全局状态分开存储和持久化
+  private slices: Map<string, any> = new Map();
+  private sliceInitialStates: Map<string, any> = new Map();
+  private sliceListeners: Map<string, Set<StateListener<any>>> = new Map();
+  // setState 中间件，按名称注册
+  private middleware: Map<string, StateMiddleware<T>> = new Map();
+  private middlewareOrder: string[];
 
   constructor(config: StateConfig<T>) {
     this.config = config;
+    this.middlewareOrder = config.middlewareOrder ?? [];
     this.state = this.loadInitialState();
   }
 
@@ -16,22 +32,37 @@ export class StateManager<T = any> implements IStateManager<T> {
 
   setState(newState: Partial<T> | ((prev: T) => T)): void {
     const prevState = this.state;
-    
-    if (typeof newState === 'function') {
-      this.state = newState(this.state);
-    } else {
-      this.state = { ...this.state, ...newState };
-    }
+    const nextState = typeof newState === 'function'
+      ? newState(prevState)
+      : { ...prevState, ...newState };
 
-    // 如果状态发生变化，通知监听器
-    if (this.state !== prevState) {
-      this.notifyListeners(this.state, prevState);
-      
-      // 持久化状态
-      if (this.config.persist) {
-        this.persistState();
+    this.runMiddleware({ prevState, nextState }, state => this.commit(state));
+  }
+
+  // 注册 setState 中间件，同名时替换；返回移除函数
+  use(name: string, middleware: StateMiddleware<T>): () => void {
+    this.middleware.set(name, middleware);
+
+    return () => {
+      if (this.middleware.get(name) === middleware) {
+        this.middleware.delete(name);
       }
-    }
+    };
+  }
+
+  removeMiddleware(name: string): void {
+    this.middleware.delete(name);
+  }
+
+  // 获取已注册中间件的名称，按执行顺序
+  getMiddleware(): string[] {
+    const names = Array.from(this.middleware.keys());
+    const ordered = this.middlewareOrder.filter(name => this.middleware.has(name));
+    return ordered.concat(names.filter(name => ordered.indexOf(name) === -1));
+  }
+
+  setMiddlewareOrder(order: string[]): void {
+    this.middlewareOrder = order.slice();
   }
 
   subscribe(listener: StateListener<T>): () => void {
@@ -53,6 +84,95 @@ export class StateManager<T = any> implements IStateManager<T> {
     if (this.config.persist && this.config.persistKey) {
       this.clearPersistedState();
     }
+
+    // 切片恢复为各自的初始值
+    this.slices.forEach((prevSlice, namespace) => {
+      const initialState = this.sliceInitialStates.get(namespace);
+      this.slices.set(namespace, initialState);
+      if (this.config.persist) {
+        this.clearPersistedState(this.getSliceKey(namespace));
+      }
+      this.notifySliceListeners(namespace, initialState, prevSlice);
+    });
+  }
+
+  // 创建命名空间切片，已存在时返回当前值；启用持久化时合并已保存的数据
+  createSlice<S = any>(namespace: string, initialState: S): S {
+    if (this.slices.has(namespace)) {
+      return this.slices.get(namespace);
+    }
+
+    let slice = initialState;
+    if (this.config.persist) {
+      const persisted = this.getPersistedState(this.getSliceKey(namespace));
+      if (persisted !== null) {
+        slice = { ...initialState, ...persisted };
+      }
+    }
+
+    this.slices.set(namespace, slice);
+    this.sliceInitialStates.set(namespace, initialState);
+    this.notifySliceListeners(namespace, slice, undefined);
+    return slice;
+  }
+
+  getSlice<S = any>(namespace: string): S | undefined {
+    return this.slices.get(namespace);
+  }
+
+  hasSlice(namespace: string): boolean {
+    return this.slices.has(namespace);
+  }
+
+  setSlice<S = any>(namespace: string, update: Partial<S> | ((prev: S) => S)): void {
+    if (!this.slices.has(namespace)) {
+      throw new SDKError(
+        `State slice ${namespace} does not exist`,
+        'STATE_SLICE_NOT_FOUND'
+      );
+    }
+
+    const prevSlice = this.slices.get(namespace);
+    const slice = typeof update === 'function'
+      ? (update as (prev: S) => S)(prevSlice)
+      : { ...prevSlice, ...update };
+
+    if (slice === prevSlice) return;
+
+    this.slices.set(namespace, slice);
+    this.notifySliceListeners(namespace, slice, prevSlice);
+
+    if (this.config.persist) {
+      this.persistState(this.getSliceKey(namespace), slice);
+    }
+  }
+
+  // 订阅单个切片的变化，切片创建和移除时也会通知
+  subscribeSlice<S = any>(namespace: string, listener: StateListener<S | undefined>): () => void {
+    if (!this.sliceListeners.has(namespace)) {
+      this.sliceListeners.set(namespace, new Set());
+    }
+    this.sliceListeners.get(namespace)!.add(listener);
+
+    return () => {
+      const listeners = this.sliceListeners.get(namespace);
+      if (listeners) {
+        listeners.delete(listener);
+      }
+    };
+  }
+
+  removeSlice(namespace: string, options: RemoveSliceOptions = {}): void {
+    if (options.clearPersisted) {
+      this.clearPersistedState(this.getSliceKey(namespace));
+    }
+
+    if (!this.slices.has(namespace)) return;
+
+    const prevSlice = this.slices.get(namespace);
+    this.slices.delete(namespace);
+    this.sliceInitialStates.delete(namespace);
+    this.notifySliceListeners(namespace, undefined, prevSlice);
   }
 
   // 获取监听器数量（用于调试）
@@ -63,6 +183,52 @@ export class StateManager<T = any> implements IStateManager<T> {
   // 清除所有监听器
   clearListeners(): void {
     this.listeners.clear();
+    this.sliceListeners.clear();
+  }
+
+  // 依次执行中间件，最后一个调用 next 后提交；中间件抛错时记录错误并跳过它
+  private runMiddleware(update: StateUpdate<T>, commit: (state: T) => void): void {
+    const chain = this.getMiddleware().map(name => ({ name, middleware: this.middleware.get(name)! }));
+
+    const dispatch = (index: number, nextState: T): void => {
+      if (index === chain.length) {
+        commit(nextState);
+        return;
+      }
+
+      const { name, middleware } = chain[index];
+      let called = false;
+      // 同一个中间件多次调用 next 时只生效第一次
+      const next = (state: T = nextState) => {
+        if (called) return;
+        called = true;
+        dispatch(index + 1, state);
+      };
+
+      try {
+        middleware({ prevState: update.prevState, nextState }, next);
+      } catch (error) {
+        console.error(`Error in state middleware ${name}:`, error);
+        next();
+      }
+    };
+
+    dispatch(0, update.nextState);
+  }
+
+  private commit(state: T): void {
+    const prevState = this.state;
+    this.state = state;
+
+    // 如果状态发生变化，通知监听器
+    if (this.state !== prevState) {
+      this.notifyListeners(this.state, prevState);
+      
+      // 持久化状态
+      if (this.config.persist) {
+        this.persistState();
+      }
+    }
   }
 
   private loadInitialState(): T {
@@ -80,6 +246,24 @@ export class StateManager<T = any> implements IStateManager<T> {
     return this.config.initialState;
   }
 
+  // 每个切片单独持久化，键为 <persistKey>:<namespace>
+  private getSliceKey(namespace: string): string | undefined {
+    return this.config.persistKey ? `${this.config.persistKey}:${namespace}` : undefined;
+  }
+
+  private notifySliceListeners(namespace: string, slice: any, prevSlice: any): void {
+    const listeners = this.sliceListeners.get(namespace);
+    if (!listeners) return;
+
+    listeners.forEach(listener => {
+      try {
+        listener(slice, prevSlice);
+      } catch (error) {
+        console.error(`Error in state slice listener for ${namespace}:`, error);
+      }
+    });
+  }
+
   private notifyListeners(state: T, prevState: T): void {
     this.listeners.forEach(listener => {
       try {
@@ -90,22 +274,22 @@ export class StateManager<T = any> implements IStateManager<T> {
     });
   }
 
-  private persistState(): void {
-    if (!this.config.persistKey) return;
+  private persistState(key = this.config.persistKey, value: any = this.state): void {
+    if (!key) return;
     
     try {
-      const serializedState = JSON.stringify(this.state);
-      localStorage.setItem(this.config.persistKey, serializedState);
+      const serializedState = JSON.stringify(value);
+      localStorage.setItem(key, serializedState);
     } catch (error) {
       console.error('Failed to persist state:', error);
     }
   }
 
-  private getPersistedState(): T | null {
-    if (!this.config.persistKey) return null;
+  private getPersistedState(key = this.config.persistKey): any {
+    if (!key) return null;
     
     try {
-      const persistedState = localStorage.getItem(this.config.persistKey);
+      const persistedState = localStorage.getItem(key);
       return persistedState ? JSON.parse(persistedState) : null;
     } catch (error) {
       console.error('Failed to parse persisted state:', error);
@@ -113,11 +297,11 @@ export class StateManager<T = any> implements IStateManager<T> {
     }
   }
 
-  private clearPersistedState(): void {
-    if (!this.config.persistKey) return;
+  private clearPersistedState(key = this.config.persistKey): void {
+    if (!key) return;
     
     try {
-      localStorage.removeItem(this.config.persistKey);
+      localStorage.removeItem(key);
     } catch (error) {
       console.error('Failed to clear persisted state:', error);
     }
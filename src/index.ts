@@ -3,12 +3,20 @@ export { SDKManager, createSDKManager } from './core/SDKManager';
 export { PluginManager } from './core/PluginManager';
 export { StateManager, createStateManager } from './core/StateManager';
 export { LifecycleManager } from './core/LifecycleManager';
+export { CommandManager } from './core/CommandManager';
 
 // React 组件
 export {
   SDKProvider,
   useSDK,
   usePlugins,
+  usePluginAPI,
+  usePluginStatus,
+  usePluginState,
+  usePluginSettings,
+  useCommand,
+  usePluginRoutes,
+  usePluginRoute,
   useSDKState,
   useLifecycle,
   useSDKInfo
@@ -17,18 +25,83 @@ export {
 export {
   PluginRenderer,
   PluginList,
-  PluginManager as PluginManagerComponent
+  PluginManager as PluginManagerComponent,
+  PluginSettingsForm,
+  Slot,
+  PluginRoutes,
+  CommandPalette
 } from './components/PluginRenderer';
 
 // 类型定义
 export type {
   Plugin,
   PluginHooks,
+  PluginContext,
+  PluginLogger,
+  PluginAPI,
+  PluginAPIRegistry,
+  PluginEngines,
+  DependencyKind,
+  PluginDependencyNode,
+  PluginDependencyEdge,
+  PluginDependencyGraph,
+  DependencyGraphFormat,
+  DependencyReplacedEvent,
+  PluginExecutionPolicy,
+  PluginImplementation,
+  PluginModule,
+  PluginManifest,
+  PluginManifestBundle,
+  ManifestFetcher,
+  PluginModuleLoader,
   PluginManager as IPluginManager,
+  PluginManagerOptions,
+  EnableOptions,
+  DisableOptions,
+  PluginStatus,
+  PluginPermission,
+  PermissionOverrides,
+  RegisterOptions,
+  RegisterAllOptions,
+  PluginTiming,
+  PluginHealthPolicy,
+  PluginQuarantine,
+  CommandHandler,
+  CommandOptions,
+  CommandInfo,
+  CommandManagerOptions,
+  CommandManager as ICommandManager,
+  StateMiddleware,
+  StateUpdate,
+  PluginEnabledWhen,
+  PluginRule,
+  PluginRuleCondition,
+  PluginRuleContext,
+  PluginRuleInput,
+  PluginRuleLogEntry,
+  PluginSettingType,
+  PluginSettingDefinition,
+  PluginSettingsSchema,
+  PluginSettings,
+  PluginSettingsListener,
+  PluginSlotContribution,
+  SlotContribution,
+  PluginRouteContribution,
+  PluginRouteGuard,
+  PluginRouteGuardInput,
+  RouteContribution,
+  RouteMatch,
+  PluginRouteResolution,
+  PluginStatusChangeEvent,
+  PluginStatusListener,
   StateManager as IStateManager,
   StateListener,
   StateConfig,
+  RemoveSliceOptions,
+  PluginStateCleanup,
   LifecycleHook,
+  PluginLifecycleHook,
+  PluginLifecycleEvent,
   LifecycleManager as ILifecycleManager,
   LifecycleCallback,
   SDKManagerConfig,
@@ -44,7 +117,11 @@ export type {
 export { SDKError } from './types';
 
 // 工具函数
-export { createPlugin } from './utils/pluginHelpers';
+export { createPlugin, validatePlugin, validateManifest, validateSettings, getDefaultSettings } from './utils/pluginHelpers';
+export { DEFAULT_PERMISSIONS, RESTRICTED_PERMISSIONS, hasPermission } from './utils/permissions';
+export { evaluateRule, validateRule } from './utils/rules';
+export { matchPath } from './utils/routes';
+export { formatDependencyGraph } from './utils/dependencyGraph';
 export { 
   withSDK, 
   withPlugins, 
@@ -1,32 +1,446 @@
-import { ReactNode } from 'react';
+import { ComponentType, ReactNode } from 'react';
 
 // 插件相关类型
 export interface Plugin {
   name: string;
   version: string;
+  // 注册时是否启用；注册后由插件管理器根据状态维护（仅 enabled 状态为 true）
   enabled: boolean;
-  dependencies?: string[];
-  initialize?: () => Promise<void> | void;
-  destroy?: () => Promise<void> | void;
+  description?: string;
+  author?: string;
+  icon?: string;
+  // 依赖列表，或依赖名称到版本范围的映射，如 { analytics: '^2.1.0' }
+  dependencies?: string[] | Record<string, string>;
+  // 可选依赖：存在时参与初始化顺序并注入上下文，缺失时不报错
+  optionalDependencies?: string[] | Record<string, string>;
+  // 冲突插件：不能与本插件同时启用
+  conflicts?: string[];
+  // 宿主兼容性，如 { sdk: '>=1.0.0' }，与 SDKManagerConfig.version 比对
+  engines?: PluginEngines;
+  config?: Record<string, any>;
+  initialize?: (context: PluginContext) => Promise<void> | void;
+  destroy?: (context: PluginContext) => Promise<void> | void;
   component?: React.ComponentType<any>;
   hooks?: PluginHooks;
+  api?: (context: PluginContext) => any;
+  // 初始化/销毁的超时与重试策略，覆盖 SDKManagerConfig.pluginPolicy
+  policy?: PluginExecutionPolicy;
+  // 依赖被 replace() 热替换后调用
+  onDependencyReplaced?: (event: DependencyReplacedEvent, context: PluginContext) => Promise<void> | void;
+  // 懒加载：元数据立即注册，实现在首次启用或渲染时通过 load 获取
+  load?: () => Promise<PluginModule>;
+  // 插件私有状态切片的初始值，启用时以插件名为命名空间创建
+  initialState?: Record<string, any>;
+  // 注销时如何处理状态切片，默认 'remove'
+  stateCleanup?: PluginStateCleanup;
+  // 插件需要的能力，未声明时使用宿主的默认权限（来自清单或由其他插件注册时只有 state:read）；
+  // 插件上下文据此拦截越权调用
+  permissions?: PluginPermission[];
+  // 设置项定义，宿主通过 SDKManagerConfig.pluginSettings 提供取值
+  settings?: PluginSettingsSchema;
+  // 向宿主命名插槽（如 toolbar、sidebar）提供的组件，插件启用时由 <Slot name> 渲染
+  slots?: PluginSlotContribution[];
+  // 插件提供的页面，插件启用时由 <PluginRoutes> 或宿主路由渲染
+  routes?: PluginRouteContribution[];
+  // 启用期间按 PluginHealthPolicy.checkInterval 定期执行，返回 false 或抛错视为一次错误
+  healthCheck?: (context: PluginContext) => Promise<boolean | void> | boolean | void;
+  // 健康检查与错误隔离策略，覆盖 SDKManagerConfig.pluginHealth
+  health?: PluginHealthPolicy;
+  // 启用条件：设置后插件的启用状态由规则决定，状态或规则上下文变化时自动启用或禁用
+  enabledWhen?: PluginEnabledWhen;
+  // setState 中间件，以插件名注册，启用时安装、禁用时移除；需要 state:write 权限
+  stateMiddleware?: StateMiddleware;
 }
 
+export type PluginEnabledWhen = PluginRule | ((input: PluginRuleInput) => boolean);
+
+// 条件：path 指向 state.*、env.* 或 user.* 下的值；多个运算符需全部满足，只有 path 时检查值为真
+export interface PluginRuleCondition {
+  path: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export type PluginRule =
+  | PluginRuleCondition
+  | { all: PluginRule[] }
+  | { any: PluginRule[] }
+  | { not: PluginRule };
+
+// 宿主提供的规则上下文：运行环境和当前用户的属性
+export interface PluginRuleContext {
+  env: Record<string, any>;
+  user: Record<string, any>;
+}
+
+export interface PluginRuleInput extends PluginRuleContext {
+  state: any;
+}
+
+// 规则自动启用或禁用插件的记录
+export interface PluginRuleLogEntry {
+  name: string;
+  action: 'enable' | 'disable';
+  reason: string;
+  timestamp: number;
+  // 启用或禁用失败时的错误
+  error?: unknown;
+}
+
+export interface PluginHealthPolicy {
+  // healthCheck 的执行间隔（毫秒），默认 30000
+  checkInterval?: number;
+  // 运行时错误达到该次数时隔离插件，未设置时只计数不隔离
+  errorThreshold?: number;
+  // 只统计该时间窗口（毫秒）内的错误，未设置时统计本次启用以来的全部错误
+  errorWindow?: number;
+}
+
+// 被隔离的插件，重新启用后解除
+export interface PluginQuarantine {
+  name: string;
+  reason: string;
+  error?: unknown;
+  quarantinedAt: number;
+  // 随之禁用的插件，依赖方在前
+  disabled: string[];
+}
+
+export interface PluginSlotContribution {
+  slot: string;
+  component: ComponentType<any>;
+  // 插槽内的排序，越小越靠前，默认 0；相同时按插件注册顺序
+  order?: number;
+  // 传给组件的属性，覆盖 <Slot props> 中的同名属性
+  props?: Record<string, any>;
+}
+
+// getSlotContributions 返回的插槽内容
+export interface SlotContribution {
+  key: string;
+  pluginName: string;
+  slot: string;
+  component: ComponentType<any>;
+  order: number;
+  props: Record<string, any>;
+}
+
+export interface PluginRouteContribution {
+  // 路径模式：'/reports/:id' 形式的参数，结尾的 '*' 匹配剩余路径
+  path: string;
+  component: ComponentType<any>;
+  title?: string;
+  // 按顺序执行：返回 false 拒绝访问，返回字符串时重定向到该地址，全部返回 true 才渲染页面
+  guards?: PluginRouteGuard[];
+}
+
+export interface PluginRouteGuardInput extends PluginRuleInput {
+  pluginName: string;
+  // 当前路径和从中解析出的参数
+  location: string;
+  params: Record<string, string>;
+}
+
+export type PluginRouteGuard = (input: PluginRouteGuardInput) => boolean | string;
+
+// getRoutes 返回的页面路由
+export interface RouteContribution {
+  key: string;
+  pluginName: string;
+  path: string;
+  component: ComponentType<any>;
+  title?: string;
+  guards: PluginRouteGuard[];
+}
+
+export interface RouteMatch {
+  route: RouteContribution;
+  params: Record<string, string>;
+}
+
+// 当前路径的解析结果：matched 可以渲染，forbidden 被守卫拒绝，redirect 需要宿主路由跳转到 redirectTo
+export type PluginRouteResolution =
+  | { status: 'notFound' }
+  | { status: 'matched' | 'forbidden'; route: RouteContribution; params: Record<string, string> }
+  | { status: 'redirect'; route: RouteContribution; params: Record<string, string>; redirectTo: string };
+
+export type PluginSettingType = 'string' | 'number' | 'boolean';
+
+export interface PluginSettingDefinition {
+  type: PluginSettingType;
+  default?: string | number | boolean;
+  // 可选值列表，设置后只能取其中之一
+  enum?: Array<string | number>;
+  required?: boolean;
+  label?: string;
+  description?: string;
+}
+
+export type PluginSettingsSchema = Record<string, PluginSettingDefinition>;
+
+export type PluginSettings = Record<string, any>;
+
+export type PluginSettingsListener = (settings: PluginSettings) => void;
+
+// state:read 读取全局状态和其他插件的切片；state:write 写入任意全局状态键，
+// state:write:<key> 只能写入指定的键；plugins:manage 注册、启用、禁用、注销插件；
+// lifecycle:emit 触发生命周期钩子；lifecycle:manage 清除生命周期钩子
+export type PluginPermission =
+  | 'state:read'
+  | 'state:write'
+  | `state:write:${string}`
+  | 'plugins:manage'
+  | 'lifecycle:emit'
+  | 'lifecycle:manage';
+
+// 宿主在注册时对插件声明的权限进行调整
+export interface PermissionOverrides {
+  grant?: PluginPermission[];
+  revoke?: PluginPermission[];
+}
+
+export interface RegisterOptions {
+  permissions?: PermissionOverrides;
+}
+
+// keep: 保留切片，重新注册后继续使用；remove: 移除内存中的切片，保留持久化数据；
+// purge: 同时清除持久化数据
+export type PluginStateCleanup = 'keep' | 'remove' | 'purge';
+
+// 懒加载插件模块提供的实现部分，元数据以注册时的描述为准
+// 依赖关系（dependencies、optionalDependencies、conflicts、engines）在注册时校验，只能在描述中声明
+export type PluginImplementation = Partial<Omit<
+  Plugin,
+  'name' | 'version' | 'enabled' | 'load' | 'dependencies' | 'optionalDependencies' | 'conflicts' | 'engines'
+>>;
+
+export type PluginModule = PluginImplementation | { default: PluginImplementation };
+
+// JSON 插件清单，entry 为实现模块的地址，相对地址基于清单URL解析
+export interface PluginManifest {
+  name: string;
+  version: string;
+  entry: string;
+  enabled?: boolean;
+  description?: string;
+  author?: string;
+  icon?: string;
+  dependencies?: string[] | Record<string, string>;
+  optionalDependencies?: string[] | Record<string, string>;
+  conflicts?: string[];
+  engines?: PluginEngines;
+  config?: Record<string, any>;
+  permissions?: PluginPermission[];
+  settings?: PluginSettingsSchema;
+  enabledWhen?: PluginRule;
+}
+
+export interface PluginManifestBundle {
+  plugins: PluginManifest[];
+}
+
+export type ManifestFetcher = (url: string) => Promise<unknown>;
+
+export type PluginModuleLoader = (entry: string) => Promise<PluginModule>;
+
+export interface PluginExecutionPolicy {
+  // initialize 超时时间（毫秒），超时抛出 PLUGIN_INIT_TIMEOUT
+  initTimeout?: number;
+  // destroy 超时时间（毫秒），超时抛出 PLUGIN_DESTROY_TIMEOUT
+  destroyTimeout?: number;
+  // initialize 失败或超时后的重试次数
+  retries?: number;
+  // 首次重试前的等待时间（毫秒）
+  retryDelay?: number;
+  // 每次重试等待时间的倍数，默认 2
+  backoffFactor?: number;
+}
+
+export interface DependencyReplacedEvent {
+  name: string;
+  previousVersion: string;
+  version: string;
+}
+
+export type DependencyKind = 'required' | 'optional';
+
+// 依赖图节点：已注册的插件
+export interface PluginDependencyNode {
+  name: string;
+  version: string;
+  status: PluginStatus;
+  enabled: boolean;
+}
+
+// 依赖图的边从依赖方指向被依赖插件；两端插件都启用时 enabled 为 true
+export interface PluginDependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyKind;
+  enabled: boolean;
+}
+
+export interface PluginDependencyGraph {
+  nodes: PluginDependencyNode[];
+  edges: PluginDependencyEdge[];
+}
+
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid';
+
+export interface PluginEngines {
+  sdk?: string;
+}
+
+// 插件API注册表，通过声明合并为 getAPI 提供类型：
+// declare module '@webscript/react-sdk-manager' {
+//   interface PluginAPIRegistry { auth: AuthAPI }
+// }
+export interface PluginAPIRegistry {}
+
+export type PluginAPI<K extends string> = K extends keyof PluginAPIRegistry ? PluginAPIRegistry[K] : any;
+
+// 插件上下文：在 initialize/destroy 时传入，提供对SDK的受限访问
+// state、lifecycle、plugins 按插件的权限进行拦截，越权时抛出 PERMISSION_DENIED
+export interface PluginContext {
+  name: string;
+  config: Record<string, any>;
+  state: StateManager;
+  lifecycle: LifecycleManager;
+  plugins: PluginManager;
+  // 插件注册的命令归插件所有，插件禁用时移除
+  commands: CommandManager;
+  permissions: PluginPermission[];
+  dependencies: Record<string, Plugin>;
+  logger: PluginLogger;
+  getAPI: <K extends string>(name: K) => PluginAPI<K>;
+  // 读取和更新插件自己的状态切片（需声明 initialState）
+  getState: <S = any>() => S;
+  setState: <S = any>(update: Partial<S> | ((prev: S) => S)) => void;
+  // 读取插件当前生效的设置
+  getSettings: () => PluginSettings;
+}
+
+export interface PluginLogger {
+  debug: (...args: any[]) => void;
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+}
+
+// 插件启用期间绑定到SDK生命周期：onMount => afterMount，onUnmount => beforeUnmount，
+// onStateChange => stateChange；onError 接收插件自身代码抛出的错误
 export interface PluginHooks {
   onMount?: () => void;
   onUnmount?: () => void;
-  onStateChange?: (state: any) => void;
+  onStateChange?: (state: any, prevState: any) => void;
   onError?: (error: Error) => void;
 }
 
 export interface PluginManager {
-  register: (plugin: Plugin) => Promise<void>;
+  register: (plugin: Plugin, options?: RegisterOptions) => Promise<void>;
+  registerAll: (plugins: Plugin[], options?: RegisterAllOptions) => Promise<void>;
+  replace: (plugin: Plugin) => Promise<void>;
   unregister: (name: string) => Promise<void>;
-  enable: (name: string) => Promise<void>;
-  disable: (name: string) => Promise<void>;
+  enable: (name: string, options?: EnableOptions) => Promise<string[]>;
+  disable: (name: string, options?: DisableOptions) => Promise<string[]>;
   get: (name: string) => Plugin | undefined;
   getAll: () => Plugin[];
   getEnabled: () => Plugin[];
+  getAPI: <K extends string>(name: K) => PluginAPI<K>;
+  load: (name: string) => Promise<void>;
+  isLoaded: (name: string) => boolean;
+  loadManifest: (source: string | PluginManifest | PluginManifestBundle) => Promise<Plugin[]>;
+  getStatus: (name: string) => PluginStatus | undefined;
+  subscribeStatus: (listener: PluginStatusListener) => () => void;
+  getPermissions: (name: string) => PluginPermission[];
+  getSettings: (name: string) => PluginSettings;
+  updateSettings: (name: string, values: PluginSettings) => void;
+  resetSettings: (name: string) => void;
+  subscribeSettings: (name: string, listener: PluginSettingsListener) => () => void;
+  getSlotContributions: (slot: string) => SlotContribution[];
+  getRoutes: () => RouteContribution[];
+  matchRoute: (location: string) => RouteMatch | undefined;
+  resolveRoute: (location: string) => PluginRouteResolution;
+  getTiming: (name: string) => PluginTiming | undefined;
+  recordError: (name: string, error: unknown) => void;
+  getErrorCount: (name: string) => number;
+  checkHealth: (name: string) => Promise<boolean>;
+  getQuarantined: () => PluginQuarantine[];
+  evaluateRules: () => Promise<void>;
+  setRuleContext: (context: Partial<PluginRuleContext>) => Promise<void>;
+  getRuleLog: () => PluginRuleLogEntry[];
+  getRuleContext: () => PluginRuleContext;
+  getDependencyGraph: () => PluginDependencyGraph;
+  exportDependencyGraph: (format?: DependencyGraphFormat) => string;
+  getTransitiveDependencies: (name: string) => string[];
+  getTransitiveDependents: (name: string) => string[];
+  getDisableOrder: (name: string) => string[];
+}
+
+export interface RegisterAllOptions {
+  // 同一依赖层级内同时初始化的插件数，覆盖 PluginManagerOptions.concurrency
+  concurrency?: number;
+}
+
+// 插件最近一次启动（加载 + 初始化）的耗时
+export interface PluginTiming {
+  startedAt: number;
+  duration: number;
+  // 批量注册时插件所在的依赖层级，从 0 开始
+  level?: number;
+}
+
+// 插件状态：
+// disabled -> loading -> initializing -> enabled -> disabling -> disabled
+// 加载、初始化或销毁失败时进入 failed，可从 failed 重新启用
+export type PluginStatus = 'disabled' | 'loading' | 'initializing' | 'enabled' | 'disabling' | 'failed';
+
+export interface PluginStatusChangeEvent {
+  name: string;
+  status: PluginStatus;
+  previousStatus: PluginStatus;
+  // 进入 failed 状态时的错误
+  error?: unknown;
+}
+
+export type PluginStatusListener = (event: PluginStatusChangeEvent) => void;
+
+export interface EnableOptions {
+  // 同时自底向上启用所有未启用的依赖
+  withDependencies?: boolean;
+}
+
+export interface DisableOptions {
+  // 同时自顶向下禁用所有启用的依赖方
+  cascade?: boolean;
+}
+
+export interface PluginManagerOptions {
+  state?: StateManager;
+  lifecycle?: LifecycleManager;
+  commands?: CommandManager;
+  debug?: boolean;
+  sdkVersion?: string;
+  executionPolicy?: PluginExecutionPolicy;
+  manifestFetcher?: ManifestFetcher;
+  moduleLoader?: PluginModuleLoader;
+  permissions?: Record<string, PermissionOverrides>;
+  // 宿主直接注册、未声明 permissions 的插件拥有的权限，默认 DEFAULT_PERMISSIONS
+  defaultPermissions?: PluginPermission[];
+  settings?: Record<string, PluginSettings>;
+  // 用户修改的设置保存在 <settingsKey>:<插件名> 下，未设置时不持久化
+  settingsKey?: string;
+  // 批量注册时同一依赖层级内同时初始化的插件数，默认不限制
+  concurrency?: number;
+  health?: PluginHealthPolicy;
+  ruleContext?: Partial<PluginRuleContext>;
 }
 
 // 状态管理相关类型
@@ -37,6 +451,71 @@ export interface StateManager<T = any> {
   reset: () => void;
   getListenerCount: () => number;
   clearListeners: () => void;
+  createSlice: <S = any>(namespace: string, initialState: S) => S;
+  getSlice: <S = any>(namespace: string) => S | undefined;
+  setSlice: <S = any>(namespace: string, update: Partial<S> | ((prev: S) => S)) => void;
+  subscribeSlice: <S = any>(namespace: string, listener: StateListener<S | undefined>) => () => void;
+  removeSlice: (namespace: string, options?: RemoveSliceOptions) => void;
+  hasSlice: (namespace: string) => boolean;
+  use: (name: string, middleware: StateMiddleware<T>) => () => void;
+  removeMiddleware: (name: string) => void;
+  getMiddleware: () => string[];
+  setMiddlewareOrder: (order: string[]) => void;
+}
+
+// 命令相关类型
+export type CommandHandler = (args?: any) => any;
+
+export interface CommandOptions {
+  // 显示名称，默认为命令 id
+  title?: string;
+  description?: string;
+  // 快捷键，如 'mod+k'、'ctrl+shift+p'；mod 在 macOS 上为 meta，其余平台为 ctrl
+  shortcut?: string;
+  // 可用条件，与 enabledWhen 相同的谓词或规则；不满足时命令不可执行，也不会出现在命令面板中
+  when?: PluginEnabledWhen;
+  // 命令所属插件，插件禁用时移除；插件上下文注册时自动设置
+  plugin?: string;
+}
+
+export interface CommandInfo {
+  id: string;
+  title: string;
+  description?: string;
+  shortcut?: string;
+  plugin?: string;
+  // when 当前是否满足
+  available: boolean;
+}
+
+export interface CommandManager {
+  register: (id: string, handler: CommandHandler, options?: CommandOptions) => () => void;
+  unregister: (id: string) => void;
+  execute: <R = any>(id: string, args?: any) => Promise<R>;
+  get: (id: string) => CommandInfo | undefined;
+  list: () => CommandInfo[];
+  removeByPlugin: (plugin: string) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface CommandManagerOptions {
+  // 计算 when 时的输入，未提供时 state、env、user 均为空对象
+  getRuleInput?: () => PluginRuleInput;
+}
+
+// 中间件收到的更新：nextState 为合并后、经前面中间件处理过的状态
+export interface StateUpdate<T = any> {
+  prevState: T;
+  nextState: T;
+}
+
+// setState 中间件：调用 next() 继续，next(state) 替换要提交的状态，不调用即否决本次更新；
+// next 返回时状态已提交并通知完监听器
+export type StateMiddleware<T = any> = (update: StateUpdate<T>, next: (nextState?: T) => void) => void;
+
+export interface RemoveSliceOptions {
+  // 同时清除持久化数据
+  clearPersisted?: boolean;
 }
 
 export type StateListener<T> = (state: T, prevState: T) => void;
@@ -45,10 +524,38 @@ export interface StateConfig<T> {
   initialState: T;
   persist?: boolean;
   persistKey?: string;
+  // 中间件执行顺序：列出的名称按此顺序最先执行，其余按注册顺序排在后面
+  middlewareOrder?: string[];
 }
 
 // 生命周期钩子相关类型
-export type LifecycleHook = 'beforeMount' | 'afterMount' | 'beforeUnmount' | 'afterUnmount' | 'stateChange' | 'error';
+export type LifecycleHook =
+  | 'beforeMount'
+  | 'afterMount'
+  | 'beforeUnmount'
+  | 'afterUnmount'
+  | 'stateChange'
+  | 'error'
+  | PluginLifecycleHook;
+
+// 插件管理器发出的生命周期事件，回调参数为 PluginLifecycleEvent
+export type PluginLifecycleHook =
+  | 'pluginRegistered'
+  | 'pluginEnabled'
+  | 'pluginDisabled'
+  | 'pluginUnregistered'
+  | 'pluginFailed'
+  | 'pluginError'
+  | 'pluginQuarantined';
+
+export interface PluginLifecycleEvent {
+  name: string;
+  version: string;
+  // pluginFailed、pluginError 和 pluginQuarantined 事件携带错误
+  error?: unknown;
+  // 仅 pluginQuarantined 事件携带隔离原因
+  reason?: string;
+}
 
 export interface LifecycleManager {
   on: (hook: LifecycleHook, callback: LifecycleCallback) => () => void;
@@ -71,12 +578,29 @@ export interface SDKManagerConfig {
   initialState?: any;
   persist?: boolean;
   persistKey?: string;
+  pluginPolicy?: PluginExecutionPolicy;
+  manifestFetcher?: ManifestFetcher;
+  moduleLoader?: PluginModuleLoader;
+  // 按插件名调整插件声明的权限
+  pluginPermissions?: Record<string, PermissionOverrides>;
+  // 宿主直接注册、未声明 permissions 的插件拥有的权限，默认 DEFAULT_PERMISSIONS
+  defaultPluginPermissions?: PluginPermission[];
+  // 按插件名提供设置取值，注册时按插件的 settings 定义校验
+  pluginSettings?: Record<string, PluginSettings>;
+  // initialize 时同一依赖层级内同时初始化的插件数，默认不限制
+  pluginConcurrency?: number;
+  pluginHealth?: PluginHealthPolicy;
+  // enabledWhen 规则中 env.* 和 user.* 的取值，运行时通过 plugins.setRuleContext 更新
+  ruleContext?: Partial<PluginRuleContext>;
+  // setState 中间件的执行顺序（中间件名称，插件提供的中间件命名为 plugin:<插件名>）
+  stateMiddlewareOrder?: string[];
 }
 
 export interface SDKManager {
   plugins: PluginManager;
   state: StateManager;
   lifecycle: LifecycleManager;
+  commands: CommandManager;
   initialize: () => Promise<void>;
   destroy: () => Promise<void>;
   getConfig: () => SDKManagerConfig;
@@ -89,6 +613,8 @@ export interface SDKManager {
     enabledPluginCount: number;
     stateListenerCount: number;
     registeredHooks: LifecycleHook[];
+    pluginTimings: Record<string, PluginTiming>;
+    quarantinedPlugins: PluginQuarantine[];
   };
   reset: () => Promise<void>;
   updateConfig: (newConfig: Partial<SDKManagerConfig>) => void;
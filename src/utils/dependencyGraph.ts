@@ -0,0 +1,76 @@
+import { DependencyGraphFormat, PluginDependencyGraph, SDKError } from '../types';
+
+// 将依赖图导出为 JSON、Graphviz DOT 或 Mermaid 文本；
+// 未启用的插件和边用虚线/灰色表示，可选依赖用虚线箭头表示
+export function formatDependencyGraph(graph: PluginDependencyGraph, format: DependencyGraphFormat = 'json'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    default:
+      throw new SDKError(
+        `Unsupported dependency graph format: ${format}`,
+        'INVALID_GRAPH_FORMAT',
+        { format }
+      );
+  }
+}
+
+function toDot(graph: PluginDependencyGraph): string {
+  const lines = ['digraph plugins {'];
+
+  graph.nodes.forEach(node => {
+    const attributes = [`label=${quoteDot(`${node.name}@${node.version}`)}`];
+    if (!node.enabled) {
+      attributes.push('style=dashed', 'color=gray');
+    }
+    lines.push(`  ${quoteDot(node.name)} [${attributes.join(', ')}];`);
+  });
+
+  graph.edges.forEach(edge => {
+    const attributes: string[] = [];
+    if (edge.kind === 'optional') attributes.push('style=dashed');
+    if (!edge.enabled) attributes.push('color=gray');
+    const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${suffix};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Mermaid 节点 ID 只能使用有限字符，按节点顺序生成 ID，插件名称放在标签中
+function toMermaid(graph: PluginDependencyGraph): string {
+  const lines = ['graph TD'];
+  const ids = new Map<string, string>();
+
+  graph.nodes.forEach((node, index) => {
+    const id = `n${index}`;
+    ids.set(node.name, id);
+    lines.push(`  ${id}["${escapeMermaid(`${node.name}@${node.version}`)}"]`);
+  });
+
+  graph.edges.forEach(edge => {
+    const arrow = edge.kind === 'optional' ? '-.->' : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  });
+
+  const disabled = graph.nodes.filter(node => !node.enabled).map(node => ids.get(node.name));
+  if (disabled.length > 0) {
+    lines.push('  classDef disabled stroke-dasharray: 5 5,color:#999');
+    lines.push(`  class ${disabled.join(',')} disabled`);
+  }
+
+  return lines.join('\n');
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
@@ -0,0 +1,57 @@
+import { PermissionOverrides, PluginPermission, SDKError } from '../types';
+
+// 宿主直接注册、未声明 permissions 的插件拥有的基础能力，可通过 PluginManagerOptions.defaultPermissions 调整
+export const DEFAULT_PERMISSIONS: PluginPermission[] = [
+  'state:read',
+  'state:write',
+  'plugins:manage',
+  'lifecycle:emit',
+  'lifecycle:manage'
+];
+
+// 来自清单或由其他插件注册、未声明 permissions 的插件拥有的能力
+export const RESTRICTED_PERMISSIONS: PluginPermission[] = ['state:read'];
+
+const PERMISSION_PATTERN = /^(state:read|state:write(:.+)?|plugins:manage|lifecycle:emit|lifecycle:manage)$/;
+
+export function isValidPermission(permission: unknown): permission is PluginPermission {
+  return typeof permission === 'string' && PERMISSION_PATTERN.test(permission);
+}
+
+// 计算插件的有效权限：声明的权限（未声明时为基础能力）加上授予的，减去撤销的；
+// 调用方可以传入自己的默认权限作为 declared
+export function resolvePermissions(
+  declared: PluginPermission[] | undefined,
+  ...overrides: Array<PermissionOverrides | undefined>
+): PluginPermission[] {
+  const permissions = new Set<PluginPermission>(declared ?? DEFAULT_PERMISSIONS);
+
+  for (const override of overrides) {
+    if (!override) continue;
+    (override.grant || []).forEach(permission => permissions.add(permission));
+    (override.revoke || []).forEach(permission => permissions.delete(permission));
+  }
+
+  return Array.from(permissions);
+}
+
+// state:write 覆盖所有 state:write:<key>
+export function hasPermission(granted: PluginPermission[], permission: PluginPermission): boolean {
+  if (granted.indexOf(permission) !== -1) return true;
+  return permission.indexOf('state:write:') === 0 && granted.indexOf('state:write') !== -1;
+}
+
+export function assertPermission(
+  pluginName: string,
+  granted: PluginPermission[],
+  permission: PluginPermission,
+  action: string
+): void {
+  if (!hasPermission(granted, permission)) {
+    throw new SDKError(
+      `Plugin ${pluginName} is not allowed to ${action}: missing permission "${permission}"`,
+      'PERMISSION_DENIED',
+      { plugin: pluginName, permission }
+    );
+  }
+}
@@ -1,115 +1,564 @@
-import { Plugin } from '../types';
+import { Plugin, PluginManifest, PluginSettingDefinition, PluginSettings, PluginSettingsSchema } from '../types';
+import { isValidRange, isValidVersion, satisfies } from './semver';
+import { isValidPermission } from './permissions';
+import { validateRule } from './rules';
+import { validateRoutePath } from './routes';
 
 // 创建插件的辅助函数
 export function createPlugin(config: {
   name: string;
   version: string;
   enabled?: boolean;
-  dependencies?: string[];
-  initialize?: () => Promise<void> | void;
-  destroy?: () => Promise<void> | void;
+  dependencies?: Plugin['dependencies'];
+  optionalDependencies?: Plugin['optionalDependencies'];
+  conflicts?: string[];
+  engines?: Plugin['engines'];
+  config?: Record<string, any>;
+  initialize?: Plugin['initialize'];
+  destroy?: Plugin['destroy'];
   component?: any;
-  hooks?: {
-    onMount?: () => void;
-    onUnmount?: () => void;
-    onStateChange?: (state: any) => void;
-    onError?: (error: Error) => void;
-  };
+  hooks?: Plugin['hooks'];
+  api?: Plugin['api'];
+  load?: Plugin['load'];
+  onDependencyReplaced?: Plugin['onDependencyReplaced'];
+  policy?: Plugin['policy'];
+  initialState?: Plugin['initialState'];
+  stateCleanup?: Plugin['stateCleanup'];
+  permissions?: Plugin['permissions'];
+  settings?: Plugin['settings'];
+  slots?: Plugin['slots'];
+  routes?: Plugin['routes'];
+  healthCheck?: Plugin['healthCheck'];
+  health?: Plugin['health'];
+  enabledWhen?: Plugin['enabledWhen'];
+  stateMiddleware?: Plugin['stateMiddleware'];
 }): Plugin {
   return {
     name: config.name,
     version: config.version,
     enabled: config.enabled ?? true,
     dependencies: config.dependencies,
+    optionalDependencies: config.optionalDependencies,
+    conflicts: config.conflicts,
+    engines: config.engines,
+    config: config.config,
     initialize: config.initialize,
     destroy: config.destroy,
     component: config.component,
-    hooks: config.hooks
+    hooks: config.hooks,
+    api: config.api,
+    load: config.load,
+    onDependencyReplaced: config.onDependencyReplaced,
+    policy: config.policy,
+    initialState: config.initialState,
+    stateCleanup: config.stateCleanup,
+    permissions: config.permissions,
+    settings: config.settings,
+    slots: config.slots,
+    routes: config.routes,
+    healthCheck: config.healthCheck,
+    health: config.health,
+    enabledWhen: config.enabledWhen,
+    stateMiddleware: config.stateMiddleware
   };
 }
 
-// 验证插件配置
-export function validatePlugin(plugin: Plugin): string[] {
+// 将依赖声明统一为 名称 => 版本范围 的映射，数组形式的依赖接受任意版本
+export function normalizeDependencies(dependencies?: Plugin['dependencies']): Record<string, string> {
+  if (!dependencies) return {};
+
+  if (Array.isArray(dependencies)) {
+    const ranges: Record<string, string> = {};
+    for (const dep of dependencies) {
+      ranges[dep] = '*';
+    }
+    return ranges;
+  }
+
+  return { ...dependencies };
+}
+
+// 获取插件依赖的名称列表
+export function getDependencyNames(plugin: Plugin): string[] {
+  return Object.keys(normalizeDependencies(plugin.dependencies));
+}
+
+// 获取插件可选依赖的名称列表
+export function getOptionalDependencyNames(plugin: Plugin): string[] {
+  return Object.keys(normalizeDependencies(plugin.optionalDependencies));
+}
+
+// 获取影响初始化顺序的全部依赖（必需 + 可选）
+export function getAllDependencyNames(plugin: Plugin): string[] {
+  const names = getDependencyNames(plugin);
+  for (const dep of getOptionalDependencyNames(plugin)) {
+    if (names.indexOf(dep) === -1) {
+      names.push(dep);
+    }
+  }
+  return names;
+}
+
+// 检查两个插件是否声明了冲突（任一方声明即视为冲突）
+export function pluginsConflict(a: Plugin, b: Plugin): boolean {
+  return (a.conflicts || []).indexOf(b.name) !== -1 || (b.conflicts || []).indexOf(a.name) !== -1;
+}
+
+// 验证插件配置或插件清单条目，错误信息以字段路径开头，如 plugins[0].dependencies.analytics
+export function validatePlugin(plugin: Partial<Plugin> | PluginManifest, path: string = 'plugin'): string[] {
+  if (!isPlainObject(plugin)) {
+    return [`${path} must be an object`];
+  }
+
   const errors: string[] = [];
+  const value = plugin as Record<string, any>;
+  const at = (field: string) => `${path}.${field}`;
+
+  if (!value.name) {
+    errors.push(`${at('name')} is required`);
+  } else if (typeof value.name !== 'string') {
+    errors.push(`${at('name')} must be a string`);
+  }
+
+  if (!value.version) {
+    errors.push(`${at('version')} is required`);
+  } else if (typeof value.version !== 'string' || !isValidVersion(value.version)) {
+    errors.push(`${at('version')} "${value.version}" is not a valid semver version`);
+  }
+
+  for (const field of ['description', 'author', 'icon', 'entry']) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${at(field)} must be a string`);
+    }
+  }
+
+  if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+    errors.push(`${at('enabled')} must be a boolean`);
+  }
+
+  validateDependencyField(value.dependencies, at('dependencies'), errors);
+  validateDependencyField(value.optionalDependencies, at('optionalDependencies'), errors);
+
+  if (value.conflicts !== undefined) {
+    if (!Array.isArray(value.conflicts)) {
+      errors.push(`${at('conflicts')} must be an array`);
+    } else {
+      value.conflicts.forEach((name: unknown, index: number) => {
+        if (typeof name !== 'string') {
+          errors.push(`${at('conflicts')}[${index}] must be a plugin name`);
+        }
+      });
+    }
+  }
+
+  if (value.engines !== undefined) {
+    if (!isPlainObject(value.engines)) {
+      errors.push(`${at('engines')} must be an object`);
+    } else if (value.engines.sdk !== undefined &&
+      (typeof value.engines.sdk !== 'string' || !isValidRange(value.engines.sdk))) {
+      errors.push(`${at('engines.sdk')} has an invalid version range "${value.engines.sdk}"`);
+    }
+  }
+
+  if (value.config !== undefined && !isPlainObject(value.config)) {
+    errors.push(`${at('config')} must be an object`);
+  }
+
+  if (value.permissions !== undefined) {
+    if (!Array.isArray(value.permissions)) {
+      errors.push(`${at('permissions')} must be an array`);
+    } else {
+      value.permissions.forEach((permission: unknown, index: number) => {
+        if (!isValidPermission(permission)) {
+          errors.push(`${at('permissions')}[${index}] "${permission}" is not a known permission`);
+        }
+      });
+    }
+  }
+
+  if (value.settings !== undefined) {
+    validateSettingsSchema(value.settings, at('settings'), errors);
+  }
 
-  if (!plugin.name) {
-    errors.push('Plugin name is required');
+  if (value.slots !== undefined) {
+    validateSlots(value.slots, at('slots'), errors);
   }
 
-  if (!plugin.version) {
-    errors.push('Plugin version is required');
+  if (value.routes !== undefined) {
+    validateRoutes(value.routes, at('routes'), errors);
   }
 
-  if (plugin.dependencies) {
-    if (!Array.isArray(plugin.dependencies)) {
-      errors.push('Plugin dependencies must be an array');
+  if (value.enabledWhen !== undefined) {
+    errors.push(...validateRule(value.enabledWhen, at('enabledWhen')));
+  }
+
+  if (value.stateMiddleware !== undefined && typeof value.stateMiddleware !== 'function') {
+    errors.push(`${at('stateMiddleware')} must be a function`);
+  }
+
+  if (value.initialState !== undefined && !isPlainObject(value.initialState)) {
+    errors.push(`${at('initialState')} must be an object`);
+  }
+
+  if (value.stateCleanup !== undefined && ['keep', 'remove', 'purge'].indexOf(value.stateCleanup) === -1) {
+    errors.push(`${at('stateCleanup')} must be one of keep, remove, purge`);
+  }
+
+  return errors;
+}
+
+// 验证插件清单，支持单个插件清单或 { plugins: [...] } 形式
+export function validateManifest(manifest: unknown): string[] {
+  if (!isPlainObject(manifest)) {
+    return ['manifest must be an object'];
+  }
+
+  if (!('plugins' in manifest)) {
+    return validateManifestEntry(manifest, 'manifest');
+  }
+
+  const entries = manifest.plugins;
+  if (!Array.isArray(entries)) {
+    return ['manifest.plugins must be an array'];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  entries.forEach((entry: unknown, index: number) => {
+    const path = `plugins[${index}]`;
+    errors.push(...validateManifestEntry(entry, path));
+
+    const name = isPlainObject(entry) ? entry.name : undefined;
+    if (typeof name === 'string') {
+      if (names.has(name)) {
+        errors.push(`${path}.name "${name}" is declared more than once`);
+      }
+      names.add(name);
     }
+  });
+
+  return errors;
+}
+
+function validateManifestEntry(entry: unknown, path: string): string[] {
+  const errors = validatePlugin(entry as PluginManifest, path);
+
+  if (isPlainObject(entry) && !entry.entry) {
+    errors.push(`${path}.entry is required`);
   }
 
   return errors;
 }
 
+function validateDependencyField(value: unknown, path: string, errors: string[]): void {
+  if (value === undefined) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((dep, index) => {
+      if (typeof dep !== 'string') {
+        errors.push(`${path}[${index}] must be a plugin name`);
+      }
+    });
+  } else if (isPlainObject(value)) {
+    for (const dep of Object.keys(value)) {
+      const range = value[dep];
+      if (typeof range !== 'string' || !isValidRange(range)) {
+        errors.push(`${path}.${dep} has an invalid version range "${range}"`);
+      }
+    }
+  } else {
+    errors.push(`${path} must be an array or an object of version ranges`);
+  }
+}
+
+function validateSlots(slots: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(slots)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+
+  slots.forEach((contribution: unknown, index: number) => {
+    const at = `${path}[${index}]`;
+    if (!isPlainObject(contribution)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    if (typeof contribution.slot !== 'string' || !contribution.slot.trim()) {
+      errors.push(`${at}.slot is required`);
+    }
+    // memo、forwardRef 等包装后的组件是对象
+    if (typeof contribution.component !== 'function' && !isPlainObject(contribution.component)) {
+      errors.push(`${at}.component must be a React component`);
+    }
+    if (contribution.order !== undefined && (typeof contribution.order !== 'number' || isNaN(contribution.order))) {
+      errors.push(`${at}.order must be a number`);
+    }
+    if (contribution.props !== undefined && !isPlainObject(contribution.props)) {
+      errors.push(`${at}.props must be an object`);
+    }
+  });
+}
+
+function validateRoutes(routes: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(routes)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+
+  routes.forEach((route: unknown, index: number) => {
+    const at = `${path}[${index}]`;
+    if (!isPlainObject(route)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    const pathError = validateRoutePath(route.path);
+    if (pathError) {
+      errors.push(`${at}.path ${pathError}`);
+    }
+    if (typeof route.component !== 'function' && !isPlainObject(route.component)) {
+      errors.push(`${at}.component must be a React component`);
+    }
+    if (route.title !== undefined && typeof route.title !== 'string') {
+      errors.push(`${at}.title must be a string`);
+    }
+    if (route.guards !== undefined &&
+      (!Array.isArray(route.guards) || route.guards.some((guard: unknown) => typeof guard !== 'function'))) {
+      errors.push(`${at}.guards must be an array of functions`);
+    }
+  });
+}
+
+function validateSettingsSchema(schema: unknown, path: string, errors: string[]): void {
+  if (!isPlainObject(schema)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(schema)) {
+    const definition = schema[key];
+    if (!isPlainObject(definition) || ['string', 'number', 'boolean'].indexOf(definition.type) === -1) {
+      errors.push(`${path}.${key}.type must be one of string, number, boolean`);
+      continue;
+    }
+
+    if (definition.enum !== undefined && !Array.isArray(definition.enum)) {
+      errors.push(`${path}.${key}.enum must be an array`);
+      continue;
+    }
+
+    if (definition.default !== undefined) {
+      errors.push(...validateSettingValue(definition as PluginSettingDefinition, definition.default, `${path}.${key}.default`));
+    }
+  }
+}
+
+// 从设置定义中收集默认值
+export function getDefaultSettings(schema: PluginSettingsSchema = {}): PluginSettings {
+  const defaults: PluginSettings = {};
+  for (const key of Object.keys(schema)) {
+    if (schema[key].default !== undefined) {
+      defaults[key] = schema[key].default;
+    }
+  }
+  return defaults;
+}
+
+// 按设置定义校验取值，返回带字段路径的错误列表
+export function validateSettings(
+  schema: PluginSettingsSchema,
+  values: PluginSettings,
+  path: string = 'settings'
+): string[] {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(values)) {
+    if (!schema[key]) {
+      errors.push(`${path}.${key} is not a declared setting`);
+    }
+  }
+
+  for (const key of Object.keys(schema)) {
+    const definition = schema[key];
+    const value = values[key];
+
+    if (value === undefined || value === null || value === '') {
+      if (definition.required) {
+        errors.push(`${path}.${key} is required`);
+      }
+      continue;
+    }
+
+    errors.push(...validateSettingValue(definition, value, `${path}.${key}`));
+  }
+
+  return errors;
+}
+
+function validateSettingValue(definition: PluginSettingDefinition, value: unknown, path: string): string[] {
+  if (typeof value !== definition.type || (definition.type === 'number' && isNaN(value as number))) {
+    return [`${path} must be a ${definition.type}`];
+  }
+
+  if (definition.enum && definition.enum.indexOf(value as string | number) === -1) {
+    return [`${path} must be one of ${definition.enum.join(', ')}`];
+  }
+
+  return [];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // 检查插件兼容性
-export function checkPluginCompatibility(plugin: Plugin, availablePlugins: Plugin[]): {
+export function checkPluginCompatibility(
+  plugin: Plugin,
+  availablePlugins: Plugin[],
+  sdkVersion?: string
+): {
   compatible: boolean;
   missingDependencies: string[];
+  versionMismatches: Array<{ name: string; required: string; actual: string }>;
+  sdkCompatible: boolean;
 } {
   const missingDependencies: string[] = [];
+  const versionMismatches: Array<{ name: string; required: string; actual: string }> = [];
 
-  if (plugin.dependencies) {
-    for (const dep of plugin.dependencies) {
-      const found = availablePlugins.find(p => p.name === dep);
-      if (!found) {
-        missingDependencies.push(dep);
-      }
+  const ranges = normalizeDependencies(plugin.dependencies);
+  for (const dep of Object.keys(ranges)) {
+    const found = availablePlugins.find(p => p.name === dep);
+    if (!found) {
+      missingDependencies.push(dep);
+    } else if (!satisfies(found.version, ranges[dep])) {
+      versionMismatches.push({ name: dep, required: ranges[dep], actual: found.version });
     }
   }
 
+  // 可选依赖缺失不影响兼容性，但存在时版本必须匹配
+  const optionalRanges = normalizeDependencies(plugin.optionalDependencies);
+  for (const dep of Object.keys(optionalRanges)) {
+    const found = availablePlugins.find(p => p.name === dep);
+    if (found && !satisfies(found.version, optionalRanges[dep])) {
+      versionMismatches.push({ name: dep, required: optionalRanges[dep], actual: found.version });
+    }
+  }
+
+  const sdkCompatible = !plugin.engines?.sdk || !sdkVersion || satisfies(sdkVersion, plugin.engines.sdk);
+
   return {
-    compatible: missingDependencies.length === 0,
-    missingDependencies
+    compatible: missingDependencies.length === 0 && versionMismatches.length === 0 && sdkCompatible,
+    missingDependencies,
+    versionMismatches,
+    sdkCompatible
   };
 }
 
-// 按依赖顺序排序插件
-export function sortPluginsByDependencies(plugins: Plugin[]): Plugin[] {
-  const sorted: Plugin[] = [];
+// 解析一批插件的依赖顺序，收集全部重复名称、缺失依赖和循环依赖而不是在第一个错误处停止
+// registeredNames 为已注册的插件，它们可以满足依赖但不参与排序；批次中与之同名的插件计入 duplicates
+export function resolvePluginOrder(plugins: Plugin[], registeredNames: string[] = []): {
+  order: Plugin[];
+  missing: Array<{ plugin: string; dependency: string }>;
+  cycles: string[][];
+  duplicates: string[];
+} {
+  const order: Plugin[] = [];
+  const missing: Array<{ plugin: string; dependency: string }> = [];
+  const cycles: string[][] = [];
+  const duplicates: string[] = [];
   const visited = new Set<string>();
-  const visiting = new Set<string>();
+  const stack: string[] = [];
+  const byName = new Map<string, Plugin>();
+
+  for (const plugin of plugins) {
+    const duplicate = byName.has(plugin.name) || registeredNames.indexOf(plugin.name) !== -1;
+    if (duplicate && duplicates.indexOf(plugin.name) === -1) {
+      duplicates.push(plugin.name);
+    }
+    if (!byName.has(plugin.name)) {
+      byName.set(plugin.name, plugin);
+    }
+  }
+
+  for (const plugin of plugins) {
+    for (const dep of getDependencyNames(plugin)) {
+      if (!byName.has(dep) && registeredNames.indexOf(dep) === -1) {
+        missing.push({ plugin: plugin.name, dependency: dep });
+      }
+    }
+  }
 
   const visit = (plugin: Plugin) => {
-    if (visiting.has(plugin.name)) {
-      throw new Error(`Circular dependency detected involving plugin: ${plugin.name}`);
+    const cycleStart = stack.indexOf(plugin.name);
+    if (cycleStart !== -1) {
+      cycles.push([...stack.slice(cycleStart), plugin.name]);
+      return;
     }
 
     if (visited.has(plugin.name)) {
       return;
     }
 
-    visiting.add(plugin.name);
+    stack.push(plugin.name);
 
-    if (plugin.dependencies) {
-      for (const depName of plugin.dependencies) {
-        const depPlugin = plugins.find(p => p.name === depName);
-        if (depPlugin) {
-          visit(depPlugin);
-        }
+    for (const depName of getAllDependencyNames(plugin)) {
+      const depPlugin = byName.get(depName);
+      if (depPlugin) {
+        visit(depPlugin);
       }
     }
 
-    visiting.delete(plugin.name);
+    stack.pop();
     visited.add(plugin.name);
-    sorted.push(plugin);
+    order.push(plugin);
   };
 
-  for (const plugin of plugins) {
+  for (const plugin of byName.values()) {
     visit(plugin);
   }
 
-  return sorted;
+  return { order, missing, cycles, duplicates };
 }
 
-// 获取插件的依赖链
+// 将依赖顺序分组为层级：插件位于其批次内所有依赖（含可选依赖）的下一层，
+// 同一层的插件互不依赖、可以并行初始化；互相冲突的插件放入不同层级
+export function groupPluginsByLevel(order: Plugin[]): Plugin[][] {
+  const levels: Plugin[][] = [];
+  const levelOf = new Map<string, number>();
+
+  for (const plugin of order) {
+    let level = 0;
+    for (const dep of getAllDependencyNames(plugin)) {
+      if (levelOf.has(dep)) {
+        level = Math.max(level, levelOf.get(dep)! + 1);
+      }
+    }
+
+    while (levels[level] && levels[level].some(other => pluginsConflict(plugin, other))) {
+      level++;
+    }
+
+    levelOf.set(plugin.name, level);
+    (levels[level] = levels[level] || []).push(plugin);
+  }
+
+  return levels;
+}
+
+// 按依赖顺序排序插件
+export function sortPluginsByDependencies(plugins: Plugin[]): Plugin[] {
+  const { order, cycles } = resolvePluginOrder(plugins);
+
+  if (cycles.length > 0) {
+    throw new Error(`Circular dependency detected involving plugin: ${cycles[0][0]}`);
+  }
+
+  return order;
+}
+
+// 获取插件的依赖链：传递性的必需依赖，最底层在前，每个依赖只出现一次，不含插件自身
 export function getPluginDependencyChain(pluginName: string, plugins: Plugin[]): string[] {
   const chain: string[] = [];
   const visited = new Set<string>();
@@ -119,12 +568,15 @@ export function getPluginDependencyChain(pluginName: string, plugins: Plugin[]):
     visited.add(name);
 
     const plugin = plugins.find(p => p.name === name);
-    if (plugin && plugin.dependencies) {
-      for (const dep of plugin.dependencies) {
+    if (plugin) {
+      for (const dep of getDependencyNames(plugin)) {
         visit(dep);
-        chain.push(dep);
       }
     }
+
+    if (name !== pluginName) {
+      chain.push(name);
+    }
   };
 
   visit(pluginName);
@@ -139,7 +591,7 @@ export function canUnloadPlugin(pluginName: string, plugins: Plugin[]): {
   const dependents: string[] = [];
 
   for (const plugin of plugins) {
-    if (plugin.dependencies && plugin.dependencies.indexOf(pluginName) !== -1) {
+    if (getDependencyNames(plugin).indexOf(pluginName) !== -1) {
       dependents.push(plugin.name);
     }
   }
@@ -0,0 +1,100 @@
+import { RouteContribution, RouteMatch } from '../types';
+
+// 路由路径：'/' 分隔的段，':name' 为参数，只能出现在最后的 '*' 匹配剩余路径
+
+// 匹配路径模式，返回解析出的参数，不匹配时返回 null；忽略查询字符串、哈希和结尾的 '/'
+export function matchPath(pattern: string, location: string): Record<string, string> | null {
+  const patternSegments = splitPath(pattern);
+  const segments = splitPath(location.split(/[?#]/)[0]);
+  const params: Record<string, string> = {};
+
+  for (let index = 0; index < patternSegments.length; index++) {
+    const segment = patternSegments[index];
+
+    if (segment === '*' && index === patternSegments.length - 1) {
+      params['*'] = segments.slice(index).map(decodeSegment).join('/');
+      return params;
+    }
+
+    const value = segments[index];
+    if (value === undefined) {
+      return null;
+    }
+
+    if (segment[0] === ':') {
+      params[segment.slice(1)] = decodeSegment(value);
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+
+  return patternSegments.length === segments.length ? params : null;
+}
+
+// 在路由中查找与路径匹配且最具体的一个：逐段比较，静态段优先于参数，参数优先于 '*'；
+// 同样具体时取靠前的路由
+export function findRoute(routes: RouteContribution[], location: string): RouteMatch | undefined {
+  let best: RouteMatch | undefined;
+
+  for (const route of routes) {
+    const params = matchPath(route.path, location);
+    if (params && (!best || compareSpecificity(route.path, best.route.path) > 0)) {
+      best = { route, params };
+    }
+  }
+
+  return best;
+}
+
+// 验证路径模式，返回错误信息，格式正确时返回 undefined
+export function validateRoutePath(path: unknown): string | undefined {
+  if (typeof path !== 'string' || path[0] !== '/') {
+    return 'must be a string starting with /';
+  }
+
+  const segments = splitPath(path);
+  const wildcard = segments.indexOf('*');
+  if (wildcard !== -1 && wildcard !== segments.length - 1) {
+    return 'may only use * as the last segment';
+  }
+  if (segments.some(segment => segment === ':')) {
+    return 'has a parameter without a name';
+  }
+
+  return undefined;
+}
+
+function compareSpecificity(a: string, b: string): number {
+  const aSegments = splitPath(a);
+  const bSegments = splitPath(b);
+  const length = Math.max(aSegments.length, bSegments.length);
+
+  for (let index = 0; index < length; index++) {
+    const difference = rankSegment(aSegments[index]) - rankSegment(bSegments[index]);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+}
+
+// 路径在此结束（只会与匹配空剩余路径的 '*' 比较）优先于 '*'
+function rankSegment(segment: string | undefined): number {
+  if (segment === '*') return 0;
+  if (segment === undefined) return 1;
+  if (segment[0] === ':') return 2;
+  return 3;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment !== '');
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
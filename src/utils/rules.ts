@@ -0,0 +1,167 @@
+import { PluginEnabledWhen, PluginRule, PluginRuleCondition, PluginRuleInput } from '../types';
+
+// enabledWhen 规则：条件比较 state / env / user 下的值，all / any / not 组合条件
+
+const RULE_ROOTS = ['state', 'env', 'user'];
+const CONDITION_OPERATORS = ['equals', 'notEquals', 'in', 'notIn', 'exists', 'gt', 'gte', 'lt', 'lte'];
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+// 计算规则在给定输入下是否成立
+export function evaluateRule(rule: PluginRule, input: PluginRuleInput): boolean {
+  if ('all' in rule) {
+    return rule.all.every(child => evaluateRule(child, input));
+  }
+  if ('any' in rule) {
+    return rule.any.some(child => evaluateRule(child, input));
+  }
+  if ('not' in rule) {
+    return !evaluateRule(rule.not, input);
+  }
+
+  return evaluateCondition(rule, input);
+}
+
+// 计算 enabledWhen：谓词函数或 JSON 规则
+export function evaluateEnabledWhen(enabledWhen: PluginEnabledWhen, input: PluginRuleInput): boolean {
+  return typeof enabledWhen === 'function'
+    ? Boolean(enabledWhen(input))
+    : evaluateRule(enabledWhen, input);
+}
+
+// 将规则描述为可读文本，用于记录自动启用或禁用的原因
+export function describeRule(rule: PluginEnabledWhen): string {
+  if (typeof rule === 'function') {
+    return 'predicate';
+  }
+  if ('all' in rule) {
+    return `(${rule.all.map(describeRule).join(' and ')})`;
+  }
+  if ('any' in rule) {
+    return `(${rule.any.map(describeRule).join(' or ')})`;
+  }
+  if ('not' in rule) {
+    return `not ${describeRule(rule.not)}`;
+  }
+
+  return describeCondition(rule);
+}
+
+// 验证规则结构，返回带字段路径的错误
+export function validateRule(rule: unknown, path: string = 'enabledWhen'): string[] {
+  if (typeof rule === 'function') {
+    return [];
+  }
+  if (!isPlainObject(rule)) {
+    return [`${path} must be a function or a rule object`];
+  }
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in rule) {
+      const children = rule[key];
+      if (!Array.isArray(children) || children.length === 0) {
+        return [`${path}.${key} must be a non-empty array of rules`];
+      }
+      const errors: string[] = [];
+      children.forEach((child, index) => {
+        errors.push(...validateRule(child, `${path}.${key}[${index}]`));
+      });
+      return errors;
+    }
+  }
+
+  if ('not' in rule) {
+    return validateRule(rule.not, `${path}.not`);
+  }
+
+  return validateCondition(rule, path);
+}
+
+// 读取 state.a.b 形式路径上的值，中途为空时返回 undefined
+export function getRuleValue(input: PluginRuleInput, path: string): unknown {
+  let value: any = input;
+  for (const segment of path.split('.')) {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+function evaluateCondition(condition: PluginRuleCondition, input: PluginRuleInput): boolean {
+  const value = getRuleValue(input, condition.path);
+  const operators = CONDITION_OPERATORS.filter(operator => operator in condition);
+
+  if (operators.length === 0) {
+    return Boolean(value);
+  }
+
+  return operators.every(operator => {
+    switch (operator) {
+      case 'equals': return value === condition.equals;
+      case 'notEquals': return value !== condition.notEquals;
+      case 'in': return condition.in!.indexOf(value) !== -1;
+      case 'notIn': return condition.notIn!.indexOf(value) === -1;
+      case 'exists': return (value !== undefined && value !== null) === condition.exists;
+      case 'gt': return typeof value === 'number' && value > condition.gt!;
+      case 'gte': return typeof value === 'number' && value >= condition.gte!;
+      case 'lt': return typeof value === 'number' && value < condition.lt!;
+      default: return typeof value === 'number' && value <= condition.lte!;
+    }
+  });
+}
+
+function describeCondition(condition: PluginRuleCondition): string {
+  const { path } = condition;
+  const parts = CONDITION_OPERATORS.filter(operator => operator in condition).map(operator => {
+    switch (operator) {
+      case 'equals': return `${path} == ${JSON.stringify(condition.equals)}`;
+      case 'notEquals': return `${path} != ${JSON.stringify(condition.notEquals)}`;
+      case 'in': return `${path} in ${JSON.stringify(condition.in)}`;
+      case 'notIn': return `${path} not in ${JSON.stringify(condition.notIn)}`;
+      case 'exists': return condition.exists ? `${path} exists` : `${path} does not exist`;
+      case 'gt': return `${path} > ${condition.gt}`;
+      case 'gte': return `${path} >= ${condition.gte}`;
+      case 'lt': return `${path} < ${condition.lt}`;
+      default: return `${path} <= ${condition.lte}`;
+    }
+  });
+
+  return parts.length > 0 ? parts.join(' and ') : `${path} is truthy`;
+}
+
+function validateCondition(condition: Record<string, any>, path: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof condition.path !== 'string' || RULE_ROOTS.indexOf(condition.path.split('.')[0]) === -1) {
+    errors.push(`${path}.path must start with ${RULE_ROOTS.join(', ')}`);
+  }
+
+  for (const key of Object.keys(condition)) {
+    if (key !== 'path' && CONDITION_OPERATORS.indexOf(key) === -1) {
+      errors.push(`${path}.${key} is not a known operator`);
+    }
+  }
+
+  for (const operator of ['in', 'notIn']) {
+    if (operator in condition && !Array.isArray(condition[operator])) {
+      errors.push(`${path}.${operator} must be an array`);
+    }
+  }
+
+  for (const operator of NUMERIC_OPERATORS) {
+    if (operator in condition && typeof condition[operator] !== 'number') {
+      errors.push(`${path}.${operator} must be a number`);
+    }
+  }
+
+  if ('exists' in condition && typeof condition.exists !== 'boolean') {
+    errors.push(`${path}.exists must be a boolean`);
+  }
+
+  return errors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,179 @@
+// 语义化版本解析与范围匹配（支持 ^ ~ > >= < <= = x * || 和 a - b 形式）
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface Comparator {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// 解析版本号，无效时返回 null
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+// 比较两个版本，返回 -1 / 0 / 1
+export function compareVersions(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] > b[key] ? 1 : -1;
+    }
+  }
+
+  // 预发布版本低于正式版本
+  if (a.prerelease.length === 0 && b.prerelease.length === 0) return 0;
+  if (a.prerelease.length === 0) return 1;
+  if (b.prerelease.length === 0) return -1;
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) {
+      return Number(left) > Number(right) ? 1 : -1;
+    }
+    if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    }
+    return left > right ? 1 : -1;
+  }
+
+  return 0;
+}
+
+// 检查版本范围语法是否有效
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+// 检查版本是否满足范围
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) return false;
+
+  return sets.some(comparators => {
+    const matches = comparators.every(comparator => testComparator(parsed, comparator));
+    if (!matches || parsed.prerelease.length === 0) {
+      return matches;
+    }
+
+    // 预发布版本只匹配显式包含同一版本号预发布标签的范围
+    return comparators.some(({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === parsed.major &&
+      bound.minor === parsed.minor &&
+      bound.patch === parsed.patch
+    );
+  });
+}
+
+function testComparator(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const result = compareVersions(version, bound);
+  switch (operator) {
+    case '>': return result > 0;
+    case '>=': return result >= 0;
+    case '<': return result < 0;
+    case '<=': return result <= 0;
+    default: return result === 0;
+  }
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const trimmed = part.trim();
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+    const tokens = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : trimmed.replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const parsed = parseComparator(token);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const match = PARTIAL_PATTERN.exec(token);
+  if (!match) return null;
+
+  const operator = match[1] || '';
+  const isWildcard = (value?: string) => value === undefined || /^[xX*]$/.test(value);
+  const [major, minor, patch] = [match[2], match[3], match[4]];
+  const prerelease = match[5] ? match[5].split('.') : [];
+
+  // *、x 匹配任意版本
+  if (isWildcard(major)) {
+    return [];
+  }
+
+  const M = Number(major);
+  const m = isWildcard(minor) ? 0 : Number(minor);
+  const p = isWildcard(patch) ? 0 : Number(patch);
+  const precision = isWildcard(minor) ? 1 : isWildcard(patch) ? 2 : 3;
+  const lower = version(M, m, p, prerelease);
+  // 部分版本号的上界，如 1.2 => 1.3.0
+  const next = precision === 1 ? version(M + 1, 0, 0) : version(M, m + 1, 0);
+
+  switch (operator) {
+    case '^': {
+      const upper = M > 0 || precision === 1
+        ? version(M + 1, 0, 0)
+        : m > 0 || precision === 2
+          ? version(0, m + 1, 0)
+          : version(0, 0, p + 1);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+    case '>':
+      return [{ operator: precision === 3 ? '>' : '>=', version: precision === 3 ? lower : next }];
+    case '<=':
+      return [{ operator: precision === 3 ? '<=' : '<', version: precision === 3 ? lower : next }];
+    case '>=':
+    case '<':
+      return [{ operator, version: lower }];
+    default:
+      return precision === 3
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+  }
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
@@ -0,0 +1,77 @@
+// 快捷键：'+' 连接的修饰键和按键，如 'mod+k'、'ctrl+shift+p'、'alt+/'
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+  meta: 'meta',
+  cmd: 'meta',
+  mod: 'mod'
+};
+
+interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+}
+
+// 验证快捷键格式，返回错误信息，格式正确时返回 undefined
+export function validateShortcut(shortcut: unknown): string | undefined {
+  if (typeof shortcut !== 'string' || shortcut.trim() === '') {
+    return 'shortcut must be a non-empty string';
+  }
+
+  const parts = shortcut.toLowerCase().split('+');
+  const key = parts.pop();
+  if (!key) {
+    return `shortcut "${shortcut}" has no key`;
+  }
+
+  const unknown = parts.filter(part => !MODIFIER_ALIASES[part]);
+  if (unknown.length > 0) {
+    return `shortcut "${shortcut}" has unknown modifiers: ${unknown.join(', ')}`;
+  }
+
+  return undefined;
+}
+
+// 判断键盘事件是否与快捷键一致，修饰键需完全一致
+export function matchShortcut(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'shiftKey' | 'altKey' | 'metaKey'>,
+  shortcut: string
+): boolean {
+  if (validateShortcut(shortcut)) return false;
+
+  const parsed = parseShortcut(shortcut);
+  return (
+    event.key.toLowerCase() === parsed.key &&
+    event.ctrlKey === parsed.ctrl &&
+    event.shiftKey === parsed.shift &&
+    event.altKey === parsed.alt &&
+    event.metaKey === parsed.meta
+  );
+}
+
+function parseShortcut(shortcut: string): ParsedShortcut {
+  const parts = shortcut.toLowerCase().split('+');
+  const parsed: ParsedShortcut = { key: parts.pop()!, ctrl: false, shift: false, alt: false, meta: false };
+
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part];
+    if (modifier === 'mod') {
+      parsed[isMac() ? 'meta' : 'ctrl'] = true;
+    } else {
+      parsed[modifier as 'ctrl' | 'shift' | 'alt' | 'meta'] = true;
+    }
+  }
+
+  return parsed;
+}
+
+function isMac(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+}